@@ -0,0 +1,285 @@
+import { WebSocketServer, type WebSocket } from "ws";
+import {
+  GameError,
+  parseClientMessage,
+  PROTOCOL_VERSION,
+  ProtocolError,
+  toPlayerAction,
+  type ErrorCode,
+  type ProfileMessage,
+  type ServerMessage,
+} from "../src/engine/index.ts";
+import {
+  addPlayer,
+  addSpectator,
+  createRoom,
+  destroyRoom,
+  disconnectPlayer,
+  dispatch,
+  kickPlayer,
+  removePlayer,
+  removeSpectator,
+  resumePlayer,
+  seatSpectator,
+  sendChat,
+  type Room,
+  type Session,
+} from "./room.ts";
+import { createLobby, scheduleLobbyUpdate, subscribe, unsubscribe } from "./lobby.ts";
+import {
+  attachSocket,
+  createProfile,
+  detachSocket,
+  flushProfiles,
+  openProfileStore,
+  profileMessage,
+  resumeProfile,
+  revokeToken,
+  saveProfile,
+  signIn,
+  type StoredProfile,
+} from "./profiles.ts";
+
+const PORT = Number(process.env.PORT) || 8080;
+const PROFILES_FILE = process.env.PROFILES_FILE || "profiles.json";
+
+const rooms = new Map<string, Room>();
+const lobby = createLobby(rooms);
+const profiles = openProfileStore(PROFILES_FILE);
+const wss = new WebSocketServer({ port: PORT });
+
+function send(ws: WebSocket, message: ServerMessage) {
+  if (ws.readyState === ws.OPEN) ws.send(JSON.stringify(message));
+}
+
+function sendError(ws: WebSocket, code: ErrorCode, message: string) {
+  send(ws, { type: "error", code, message });
+}
+
+/** Answers a refused message. Anything that isn't a protocol or game error is a bug and is logged. */
+function reportError(ws: WebSocket, err: unknown) {
+  if (err instanceof ProtocolError) {
+    sendError(ws, err.code, err.message);
+  } else if (err instanceof GameError) {
+    sendError(ws, err.code, err.message);
+  } else {
+    console.error("Unhandled error:", err);
+    sendError(ws, "INTERNAL", "Internal server error");
+  }
+}
+
+function sendJoined(ws: WebSocket, room: Room, session: Session) {
+  send(ws, { type: "joined", roomId: room.code, playerId: session.playerId, token: session.token });
+}
+
+/** A room stays open while anyone is seated or watching. */
+function closeIfEmpty(room: Room) {
+  if (room.table.players.length > 0 || room.spectators.size > 0) return;
+  destroyRoom(room);
+  rooms.delete(room.code);
+  scheduleLobbyUpdate(lobby);
+  console.log(`🗑️  Room ${room.code} closed`);
+}
+
+function leaveRoom(room: Room, playerId: string) {
+  if (room.sessions.has(playerId)) removePlayer(room, playerId);
+  closeIfEmpty(room);
+}
+
+wss.on("connection", (ws) => {
+  let room: Room | null = null;
+  let playerId: string | null = null;
+  let greeted = false;
+  // After another connection resumed this seat, this one no longer speaks for it.
+  const ownsSeat = () => !!room && !!playerId && room.sockets.get(ws) === playerId;
+  const isWatching = () => !!room && room.spectators.has(ws);
+  // The signed-in profile, if any, and the token this connection used for it.
+  let profile: StoredProfile | null = null;
+  let profileToken: string | null = null;
+
+  const setProfile = (next: StoredProfile | null, token: string | null) => {
+    if (profile) detachSocket(profiles, profile, ws);
+    profile = next;
+    profileToken = token;
+    // A sign-in can finish hashing after its connection closed.
+    if (!next || !token || ws.readyState !== ws.OPEN) return;
+    attachSocket(profiles, next, ws);
+    send(ws, { type: "signedIn", username: next.username, token });
+    send(ws, profileMessage(next));
+  };
+
+  const handleProfile = async (msg: ProfileMessage) => {
+    switch (msg.type) {
+      case "signUp":
+      case "signIn": {
+        const { username, passphrase } = msg.payload;
+        const signedIn = await (msg.type === "signUp" ? createProfile : signIn)(profiles, username, passphrase);
+        setProfile(signedIn.profile, signedIn.token);
+        console.log(`🔑 ${signedIn.profile.username} signed ${msg.type === "signUp" ? "up" : "in"}`);
+        return;
+      }
+      case "resumeProfile": {
+        const found = resumeProfile(profiles, msg.payload.token);
+        if (!found) {
+          setProfile(null, null);
+          send(ws, { type: "signedOut", message: "Your sign-in has expired, please sign in again" });
+          return;
+        }
+        setProfile(found, msg.payload.token);
+        return;
+      }
+      case "signOut":
+        if (profile && profileToken) revokeToken(profiles, profile, profileToken);
+        setProfile(null, null);
+        send(ws, { type: "signedOut", message: "Signed out" });
+        return;
+      case "saveProfile":
+        if (!profile) throw new ProtocolError("NOT_SIGNED_IN", "Sign in to save your profile");
+        if (saveProfile(profiles, profile, ws, msg.payload)) {
+          send(ws, { type: "profileSaved", id: msg.payload.id, revision: profile.revision });
+        } else {
+          send(ws, profileMessage(profile));
+        }
+        return;
+    }
+  };
+
+  /** Gives up whatever this connection holds: its seat, or its place among the spectators. */
+  const leaveCurrent = () => {
+    if (room && playerId && ownsSeat()) {
+      leaveRoom(room, playerId);
+    } else if (room && isWatching()) {
+      removeSpectator(room, ws);
+      closeIfEmpty(room);
+    }
+    room = null;
+    playerId = null;
+  };
+
+  ws.on("message", (raw) => {
+    try {
+      const msg = parseClientMessage(raw.toString());
+
+      if (msg.type === "hello") {
+        if (msg.version !== PROTOCOL_VERSION) {
+          sendError(ws, "VERSION_MISMATCH", `Server speaks protocol v${PROTOCOL_VERSION}, client sent v${msg.version}. Please reload.`);
+          ws.close();
+          return;
+        }
+        greeted = true;
+        send(ws, { type: "welcome", version: PROTOCOL_VERSION, serverTime: Date.now() });
+        return;
+      }
+      if (!greeted) throw new ProtocolError("BAD_MESSAGE", "Send hello with the protocol version first");
+
+      if (msg.type === "listRooms") {
+        subscribe(lobby, ws);
+        return;
+      }
+      if (msg.type === "unlistRooms") {
+        unsubscribe(lobby, ws);
+        return;
+      }
+
+      if (msg.type === "signUp" || msg.type === "signIn" || msg.type === "resumeProfile" || msg.type === "signOut" || msg.type === "saveProfile") {
+        handleProfile(msg).catch(err => reportError(ws, err));
+        return;
+      }
+
+      if (msg.type === "join" || msg.type === "resume" || msg.type === "watch") {
+        const code = msg.roomId.trim().toUpperCase();
+        if (!code) throw new GameError("Enter name and room code!");
+        leaveCurrent();
+
+        if (msg.type === "watch") {
+          const target = rooms.get(code);
+          if (!target) throw new ProtocolError("ROOM_NOT_FOUND", `There is no room ${code} to watch`);
+          addSpectator(target, ws);
+          room = target;
+          send(ws, { type: "watching", roomId: code });
+          console.log(`👀 Spectator joined ${code}`);
+          return;
+        }
+
+        if (msg.type === "resume") {
+          const existing = rooms.get(code);
+          const session = existing && resumePlayer(existing, ws, msg.payload.clientId, msg.payload.token);
+          if (!existing || !session) {
+            send(ws, { type: "sessionExpired", message: "Your seat is no longer available" });
+            return;
+          }
+          room = existing;
+          playerId = session.playerId;
+          sendJoined(ws, room, session);
+          console.log(`🔁 ${playerId} resumed in ${code}`);
+          return;
+        }
+
+        // Rules only count for the player who opens the room; later joiners get the table as it is.
+        const target =
+          rooms.get(code) ??
+          createRoom(code, msg.payload.rules, { isPublic: msg.payload.isPublic, onChange: () => scheduleLobbyUpdate(lobby) });
+        const session = addPlayer(target, ws, msg.payload.name, msg.payload.clientId, msg.payload.password);
+        rooms.set(code, target);
+        room = target;
+        playerId = session.playerId;
+        sendJoined(ws, room, session);
+        console.log(`👤 ${msg.payload.name} joined ${code}`);
+        return;
+      }
+
+      if (msg.type === "leave") {
+        leaveCurrent();
+        return;
+      }
+
+      if (msg.type === "sit") {
+        if (!room || !isWatching()) throw new ProtocolError("NOT_SEATED", "Watch a room before taking a seat");
+        const session = seatSpectator(room, ws, msg.payload.name, msg.payload.clientId, msg.payload.password);
+        playerId = session.playerId;
+        sendJoined(ws, room, session);
+        console.log(`👤 ${msg.payload.name} took a seat in ${room.code}`);
+        return;
+      }
+
+      if (!room || !playerId || !ownsSeat()) {
+        throw new ProtocolError("NOT_SEATED", isWatching() ? "Take a seat to play" : "Join a room first");
+      }
+
+      if (msg.type === "chat") {
+        sendChat(room, playerId, msg.payload.text);
+      } else if (msg.type === "kick") {
+        kickPlayer(room, playerId, msg.payload.targetId);
+      } else {
+        dispatch(room, toPlayerAction(msg, playerId));
+      }
+    } catch (err) {
+      reportError(ws, err);
+    }
+  });
+
+  ws.on("close", () => {
+    unsubscribe(lobby, ws);
+    if (profile) detachSocket(profiles, profile, ws);
+    if (room && playerId) {
+      const left = room;
+      const id = playerId;
+      disconnectPlayer(left, ws, () => leaveRoom(left, id));
+    } else if (room && isWatching()) {
+      removeSpectator(room, ws);
+      closeIfEmpty(room);
+    }
+    room = null;
+    playerId = null;
+  });
+});
+
+// Profile saves are written in batches; don't lose the last batch on the way out.
+for (const signal of ["SIGINT", "SIGTERM"] as const) {
+  process.on(signal, () => {
+    flushProfiles(profiles);
+    process.exit(0);
+  });
+}
+
+console.log(`🃏 Blackjack server listening on ws://localhost:${PORT}`);
@@ -0,0 +1,57 @@
+import type { WebSocket } from "ws";
+import type { RoomSummary, ServerMessage } from "../src/engine/index.ts";
+import type { Room } from "./room.ts";
+
+/** Most one room list push per this window; a table that is dealing changes several times a second. */
+const LOBBY_THROTTLE_MS = 1000;
+
+/** Clients on the welcome screen, following the list of public rooms. */
+export interface Lobby {
+  rooms: Map<string, Room>;
+  watchers: Set<WebSocket>;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+export function createLobby(rooms: Map<string, Room>): Lobby {
+  return { rooms, watchers: new Set(), timer: null };
+}
+
+/** Public rooms that would take a new player: locked rooms are left out. */
+export function listRooms(lobby: Lobby): RoomSummary[] {
+  return [...lobby.rooms.values()]
+    .filter(room => room.isPublic && !room.table.locked)
+    .map(room => ({
+      code: room.code,
+      rules: room.table.rules,
+      players: room.table.players.length,
+      spectators: room.spectators.size,
+      phase: room.table.phase,
+      hasPassword: room.table.hasPassword,
+    }));
+}
+
+function sendRooms(lobby: Lobby, sockets: Iterable<WebSocket>) {
+  const message: ServerMessage = { type: "rooms", rooms: listRooms(lobby) };
+  const data = JSON.stringify(message);
+  for (const socket of sockets) {
+    if (socket.readyState === socket.OPEN) socket.send(data);
+  }
+}
+
+export function subscribe(lobby: Lobby, socket: WebSocket) {
+  lobby.watchers.add(socket);
+  sendRooms(lobby, [socket]);
+}
+
+export function unsubscribe(lobby: Lobby, socket: WebSocket) {
+  lobby.watchers.delete(socket);
+}
+
+/** Pushes the room list to every watcher, batching changes that come in quick succession. */
+export function scheduleLobbyUpdate(lobby: Lobby) {
+  if (lobby.timer || lobby.watchers.size === 0) return;
+  lobby.timer = setTimeout(() => {
+    lobby.timer = null;
+    sendRooms(lobby, lobby.watchers);
+  }, LOBBY_THROTTLE_MS);
+}
@@ -0,0 +1,50 @@
+import assert from "node:assert/strict";
+import { mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, it } from "node:test";
+import { createProfile, flushProfiles, openProfileStore, signIn } from "./profiles.ts";
+
+const PASSPHRASE = "correct horse battery";
+
+/** A store with one profile, `ann`, kept in a file of its own. */
+async function storeWithAnn() {
+  const store = openProfileStore(join(mkdtempSync(join(tmpdir(), "profiles-")), "profiles.json"));
+  await createProfile(store, "ann", PASSPHRASE);
+  flushProfiles(store);
+  return store;
+}
+
+/** The answer to a sign-in: "ok", or the message it was refused with. */
+const attempt = (promise: Promise<unknown>) =>
+  promise.then(
+    () => "ok",
+    (err: Error) => err.message
+  );
+
+// ===================== Signing in =====================
+describe("signIn", () => {
+  it("signs in with the right passphrase and refuses a wrong one", async () => {
+    const store = await storeWithAnn();
+    assert.equal(await attempt(signIn(store, "ann", PASSPHRASE)), "ok");
+    assert.equal(await attempt(signIn(store, "ann", "wrong passphrase")), "Wrong username or passphrase");
+    flushProfiles(store);
+  });
+
+  it("refuses a profile whose stored hash has the wrong length", async () => {
+    const store = await storeWithAnn();
+    store.profiles.get("ann")!.hash = "abcd";
+    assert.equal(await attempt(signIn(store, "ann", PASSPHRASE)), "Wrong username or passphrase");
+  });
+
+  it("holds tries made at the same time to the failure limit", async () => {
+    const store = await storeWithAnn();
+    const answers = await Promise.all(Array.from({ length: 8 }, () => attempt(signIn(store, "ann", "wrong passphrase"))));
+    assert.equal(answers.filter(a => a === "Wrong username or passphrase").length, 5);
+    assert.equal(answers.filter(a => a === "Too many tries, wait a minute and try again").length, 3);
+
+    assert.equal(await attempt(signIn(store, "ann", PASSPHRASE)), "Too many tries, wait a minute and try again");
+    assert.equal(await attempt(signIn(store, "ann", PASSPHRASE, Date.now() + 60_000)), "ok");
+    flushProfiles(store);
+  });
+});
@@ -0,0 +1,238 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from "node:crypto";
+import { readFileSync, renameSync, writeFileSync } from "node:fs";
+import { rename, writeFile } from "node:fs/promises";
+import { promisify } from "node:util";
+import type { WebSocket } from "ws";
+import {
+  credentialProblem,
+  expectArray,
+  expectNumber,
+  expectRecord,
+  expectString,
+  normalizeUsername,
+  ProtocolError,
+  validateProfileData,
+  type ProfileData,
+  type ServerMessage,
+} from "../src/engine/index.ts";
+
+// Player profiles, kept in one JSON file next to the server. Passphrases are stored as scrypt
+// hashes; sign-in tokens as SHA-256 hashes, so a leaked file lets nobody sign in.
+
+const hashPassphrase = promisify(scrypt) as (passphrase: string, salt: string, length: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+/** Sign-ins kept per profile, one per device; the oldest is dropped first. */
+const TOKEN_LIMIT = 10;
+/**
+ * After this many sign-in tries without the right passphrase a username is refused until
+ * `LOCKOUT_MS` after the last one. Failures are forgotten once that long has passed without another.
+ */
+const FAILURE_LIMIT = 5;
+const LOCKOUT_MS = 60_000;
+/** Ids of accepted saves kept per profile, for clients that lost the answer to one. */
+const APPLIED_LIMIT = 20;
+/** Saves are batched into one write per this window. */
+const WRITE_DELAY_MS = 500;
+
+export interface StoredProfile {
+  username: string;
+  salt: string;
+  hash: string;
+  /** SHA-256 of each live sign-in token, oldest first. */
+  tokens: string[];
+  data: ProfileData | null;
+  /** Goes up by one with every save, so a device holding an old copy can tell. */
+  revision: number;
+  /** Ids of the latest saves, oldest first. */
+  applied: string[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ProfileStore {
+  file: string;
+  profiles: Map<string, StoredProfile>;
+  /** Connections signed in to each profile, so a save on one device reaches the others. */
+  sockets: Map<string, Set<WebSocket>>;
+  /** Recent wrong passphrases by username, and when they are forgotten. */
+  failures: Map<string, { count: number; until: number }>;
+  writeTimer: ReturnType<typeof setTimeout> | null;
+}
+
+const hashToken = (token: string) => createHash("sha256").update(token).digest("hex");
+
+// ===================== Loading and saving =====================
+function readProfile(value: unknown, path: string): StoredProfile {
+  const p = expectRecord(value, path);
+  return {
+    username: expectString(p.username, `${path}.username`),
+    salt: expectString(p.salt, `${path}.salt`),
+    hash: expectString(p.hash, `${path}.hash`),
+    tokens: expectArray(p.tokens, `${path}.tokens`).map((t, idx) => expectString(t, `${path}.tokens[${idx}]`)),
+    data: p.data === null ? null : validateProfileData(p.data, `${path}.data`),
+    revision: expectNumber(p.revision, `${path}.revision`),
+    applied: expectArray(p.applied, `${path}.applied`).map((id, idx) => expectString(id, `${path}.applied[${idx}]`)),
+    createdAt: expectNumber(p.createdAt, `${path}.createdAt`),
+    updatedAt: expectNumber(p.updatedAt, `${path}.updatedAt`),
+  };
+}
+
+/** Reads the profile file, or starts empty if there is none. A profile that doesn't read is skipped, not fatal. */
+export function openProfileStore(file: string): ProfileStore {
+  const store: ProfileStore = { file, profiles: new Map(), sockets: new Map(), failures: new Map(), writeTimer: null };
+  let raw: string;
+  try {
+    raw = readFileSync(file, "utf8");
+  } catch {
+    return store;
+  }
+  const saved = expectArray(JSON.parse(raw), "profiles");
+  saved.forEach((value, idx) => {
+    try {
+      const profile = readProfile(value, `profiles[${idx}]`);
+      store.profiles.set(profile.username, profile);
+    } catch (err) {
+      console.warn(`Skipping unreadable profile ${idx}:`, err);
+    }
+  });
+  return store;
+}
+
+const serialize = (store: ProfileStore) => JSON.stringify([...store.profiles.values()]);
+
+function scheduleWrite(store: ProfileStore) {
+  if (store.writeTimer) return;
+  store.writeTimer = setTimeout(() => {
+    store.writeTimer = null;
+    // Write then rename, so a crash part way through leaves the old file whole.
+    const tmp = `${store.file}.tmp`;
+    writeFile(tmp, serialize(store))
+      .then(() => rename(tmp, store.file))
+      .catch(err => console.error("Could not save profiles:", err));
+  }, WRITE_DELAY_MS);
+}
+
+/** Writes any pending changes right away, e.g. on shutdown. */
+export function flushProfiles(store: ProfileStore) {
+  if (!store.writeTimer) return;
+  clearTimeout(store.writeTimer);
+  store.writeTimer = null;
+  writeFileSync(`${store.file}.tmp`, serialize(store));
+  renameSync(`${store.file}.tmp`, store.file);
+}
+
+// ===================== Signing in =====================
+function issueToken(store: ProfileStore, profile: StoredProfile): string {
+  const token = randomBytes(32).toString("base64url");
+  profile.tokens = [...profile.tokens, hashToken(token)].slice(-TOKEN_LIMIT);
+  scheduleWrite(store);
+  return token;
+}
+
+function checkCredentials(username: string, passphrase: string) {
+  const problem = credentialProblem(username, passphrase);
+  if (problem) throw new ProtocolError("AUTH_FAILED", problem);
+}
+
+/** Creates a profile with no data yet; the client fills it in with its first save. */
+export async function createProfile(store: ProfileStore, username: string, passphrase: string, now = Date.now()) {
+  checkCredentials(username, passphrase);
+  const key = normalizeUsername(username);
+  if (store.profiles.has(key)) throw new ProtocolError("USERNAME_TAKEN", `The username ${key} is taken`);
+
+  const salt = randomBytes(16).toString("hex");
+  const hash = (await hashPassphrase(passphrase, salt, KEY_LENGTH)).toString("hex");
+  // Someone else may have taken the name while we were hashing.
+  if (store.profiles.has(key)) throw new ProtocolError("USERNAME_TAKEN", `The username ${key} is taken`);
+
+  const profile: StoredProfile = { username: key, salt, hash, tokens: [], data: null, revision: 0, applied: [], createdAt: now, updatedAt: now };
+  store.profiles.set(key, profile);
+  return { profile, token: issueToken(store, profile) };
+}
+
+function pruneFailures(store: ProfileStore, now: number) {
+  for (const [key, failures] of store.failures) {
+    if (failures.until <= now) store.failures.delete(key);
+  }
+}
+
+/** Checks a passphrase. Unknown usernames and wrong passphrases get the same answer. */
+export async function signIn(store: ProfileStore, username: string, passphrase: string, now = Date.now()) {
+  checkCredentials(username, passphrase);
+  const key = normalizeUsername(username);
+  pruneFailures(store, now);
+  const count = store.failures.get(key)?.count ?? 0;
+  if (count >= FAILURE_LIMIT) {
+    throw new ProtocolError("AUTH_FAILED", "Too many tries, wait a minute and try again");
+  }
+  // Counted as a failure before hashing, so tries racing each other can't all get in under the limit.
+  store.failures.set(key, { count: count + 1, until: now + LOCKOUT_MS });
+
+  const profile = store.profiles.get(key);
+  const hash = await hashPassphrase(passphrase, profile?.salt ?? "", KEY_LENGTH);
+  // A stored hash of the wrong length (a hand-edited file) can't match, and would make timingSafeEqual throw.
+  const stored = Buffer.from(profile?.hash ?? "", "hex");
+  if (!profile || stored.length !== hash.length || !timingSafeEqual(hash, stored)) {
+    throw new ProtocolError("AUTH_FAILED", "Wrong username or passphrase");
+  }
+  store.failures.delete(key);
+  return { profile, token: issueToken(store, profile) };
+}
+
+/** The profile a token from an earlier sign-in belongs to, or `null` if it was signed out. */
+export function resumeProfile(store: ProfileStore, token: string): StoredProfile | null {
+  const hashed = hashToken(token);
+  return [...store.profiles.values()].find(p => p.tokens.includes(hashed)) ?? null;
+}
+
+export function revokeToken(store: ProfileStore, profile: StoredProfile, token: string) {
+  const hashed = hashToken(token);
+  profile.tokens = profile.tokens.filter(t => t !== hashed);
+  scheduleWrite(store);
+}
+
+// ===================== Syncing =====================
+export function attachSocket(store: ProfileStore, profile: StoredProfile, socket: WebSocket) {
+  const sockets = store.sockets.get(profile.username) ?? new Set();
+  sockets.add(socket);
+  store.sockets.set(profile.username, sockets);
+}
+
+export function detachSocket(store: ProfileStore, profile: StoredProfile, socket: WebSocket) {
+  const sockets = store.sockets.get(profile.username);
+  sockets?.delete(socket);
+  if (sockets?.size === 0) store.sockets.delete(profile.username);
+}
+
+export const profileMessage = (profile: StoredProfile): ServerMessage => ({
+  type: "profile",
+  data: profile.data,
+  revision: profile.revision,
+  applied: profile.applied,
+});
+
+/**
+ * Stores `data` if the sender had the latest revision, and passes it on to the player's other
+ * devices. Returns `false` if the sender is behind; it should merge the current copy and try again.
+ */
+export function saveProfile(
+  store: ProfileStore,
+  profile: StoredProfile,
+  socket: WebSocket,
+  { id, revision, data }: { id: string; revision: number; data: ProfileData },
+  now = Date.now()
+) {
+  if (revision !== profile.revision) return false;
+  profile.data = data;
+  profile.revision++;
+  profile.applied = [...profile.applied, id].slice(-APPLIED_LIMIT);
+  profile.updatedAt = now;
+  scheduleWrite(store);
+
+  const message = JSON.stringify(profileMessage(profile));
+  for (const other of store.sockets.get(profile.username) ?? []) {
+    if (other !== socket && other.readyState === other.OPEN) other.send(message);
+  }
+  return true;
+}
@@ -0,0 +1,267 @@
+import { randomUUID } from "node:crypto";
+import type { WebSocket } from "ws";
+import {
+  abandonRound,
+  bankrollOf,
+  createTable,
+  GameError,
+  isDue,
+  isStuck,
+  ledgerOf,
+  nextStep,
+  reduce,
+  toPublicState,
+  type Action,
+  type Bankroll,
+  type ChatMessage,
+  type ServerMessage,
+  type TableRules,
+  type TableState,
+} from "../src/engine/index.ts";
+
+/** A seat's claim ticket. The token is only ever sent to the seat's own client. */
+export interface Session {
+  playerId: string;
+  clientId: string;
+  token: string;
+  socket: WebSocket | null;
+  graceTimer: ReturnType<typeof setTimeout> | null;
+  /** Fingerprint of the last ledger sent to this seat, so unchanged ledgers aren't resent. */
+  ledgerSent: string;
+}
+
+export interface Room {
+  code: string;
+  table: TableState;
+  sockets: Map<WebSocket, string>;
+  sessions: Map<string, Session>;
+  /** Sockets following the table without a seat. They get every update but cannot act or chat. */
+  spectators: Set<WebSocket>;
+  timer: ReturnType<typeof setTimeout> | null;
+  /** Listed in the public lobby. Chosen by whoever opens the room. */
+  isPublic: boolean;
+  /** Called after every state broadcast, e.g. to refresh the lobby. */
+  onChange: () => void;
+  /** Bankrolls of players who left, by client id, handed back if they sit down here again. */
+  bankrolls: Map<string, Bankroll>;
+}
+
+export interface RoomOptions {
+  isPublic?: boolean;
+  onChange?: () => void;
+}
+
+const MAX_CHAT_LENGTH = 150;
+/** How long a dropped seat is held for its owner before it is given up. */
+export const SEAT_GRACE_MS = 60_000;
+
+// ===================== Room lifecycle =====================
+export function createRoom(code: string, rules?: Partial<TableRules>, { isPublic = false, onChange = () => {} }: RoomOptions = {}): Room {
+  return {
+    code,
+    table: createTable(code, rules),
+    sockets: new Map(),
+    sessions: new Map(),
+    spectators: new Set(),
+    timer: null,
+    isPublic,
+    onChange,
+    bankrolls: new Map(),
+  };
+}
+
+export function destroyRoom(room: Room) {
+  if (room.timer) clearTimeout(room.timer);
+  room.timer = null;
+  for (const session of room.sessions.values()) {
+    if (session.graceTimer) clearTimeout(session.graceTimer);
+  }
+}
+
+export function addPlayer(room: Room, socket: WebSocket, name: string, clientId: string, password?: string): Session {
+  const playerId = randomUUID();
+  room.sockets.set(socket, playerId);
+  try {
+    dispatch(room, { type: "join", playerId, name, password, bankroll: room.bankrolls.get(clientId) });
+  } catch (err) {
+    room.sockets.delete(socket);
+    throw err;
+  }
+  room.bankrolls.delete(clientId);
+  const session: Session = { playerId, clientId, token: randomUUID(), socket, graceTimer: null, ledgerSent: "" };
+  room.sessions.set(playerId, session);
+  sendLedger(room, session);
+  return session;
+}
+
+/** Gives a held seat back to its client. Returns `null` if the seat is gone or the token doesn't match. */
+export function resumePlayer(room: Room, socket: WebSocket, clientId: string, token: string): Session | null {
+  const session = [...room.sessions.values()].find(s => s.clientId === clientId && s.token === token);
+  if (!session) return null;
+
+  if (session.graceTimer) clearTimeout(session.graceTimer);
+  session.graceTimer = null;
+  // A second tab taking over the seat wins; the old socket just stops getting updates.
+  if (session.socket) room.sockets.delete(session.socket);
+  session.socket = socket;
+  session.ledgerSent = "";
+  room.sockets.set(socket, session.playerId);
+  broadcastState(room);
+  return session;
+}
+
+/** Holds the seat of a dropped connection for `SEAT_GRACE_MS`, then calls `onExpire`. */
+export function disconnectPlayer(room: Room, socket: WebSocket, onExpire: () => void) {
+  const playerId = room.sockets.get(socket);
+  const session = playerId ? room.sessions.get(playerId) : undefined;
+  room.sockets.delete(socket);
+  if (!session || session.socket !== socket) return;
+
+  session.socket = null;
+  session.graceTimer = setTimeout(() => {
+    session.graceTimer = null;
+    onExpire();
+  }, SEAT_GRACE_MS);
+}
+
+export function removePlayer(room: Room, playerId: string) {
+  for (const [socket, id] of room.sockets) {
+    if (id === playerId) room.sockets.delete(socket);
+  }
+  const session = room.sessions.get(playerId);
+  if (session?.graceTimer) clearTimeout(session.graceTimer);
+  if (session) keepBankroll(room, session);
+  room.sessions.delete(playerId);
+  dispatch(room, { type: "leave", playerId });
+}
+
+function keepBankroll(room: Room, session: Session) {
+  const bankroll = bankrollOf(room.table, session.playerId);
+  if (bankroll) room.bankrolls.set(session.clientId, bankroll);
+}
+
+export function addSpectator(room: Room, socket: WebSocket) {
+  room.spectators.add(socket);
+  broadcastState(room);
+}
+
+export function removeSpectator(room: Room, socket: WebSocket) {
+  if (room.spectators.delete(socket)) broadcastState(room);
+}
+
+/** Moves a spectator into a free seat. Seats only change hands between rounds. */
+export function seatSpectator(room: Room, socket: WebSocket, name: string, clientId: string, password?: string): Session {
+  if (!room.spectators.has(socket)) throw new GameError("Only spectators can take a seat");
+  if (room.table.phase !== "LOBBY") throw new GameError("Seats open up between rounds");
+
+  room.spectators.delete(socket);
+  try {
+    return addPlayer(room, socket, name, clientId, password);
+  } catch (err) {
+    room.spectators.add(socket);
+    throw err;
+  }
+}
+
+/** Removes a player on the host's say-so. Their seat is not held, and their client is told why. */
+export function kickPlayer(room: Room, hostId: string, targetId: string) {
+  // Worked out first, so a refused kick leaves the target connected, but only applied once they
+  // are: their client must never be sent a state without their seat in it.
+  const table = reduce(room.table, { type: "kick", playerId: hostId, targetId });
+
+  const session = room.sessions.get(targetId);
+  if (session) {
+    keepBankroll(room, session);
+    if (session.graceTimer) clearTimeout(session.graceTimer);
+    room.sessions.delete(targetId);
+    const socket = session.socket;
+    if (socket) {
+      room.sockets.delete(socket);
+      const message: ServerMessage = { type: "sessionExpired", message: "The host removed you from the room" };
+      if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(message));
+    }
+  }
+  commit(room, table);
+}
+
+export function sendChat(room: Room, playerId: string, text: string) {
+  const player = room.table.players.find(p => p.id === playerId);
+  const trimmed = text.trim().slice(0, MAX_CHAT_LENGTH);
+  if (!player || !trimmed) return;
+
+  const message: ChatMessage = {
+    id: randomUUID(),
+    playerId,
+    playerName: player.name,
+    text: trimmed,
+    timestamp: Date.now(),
+  };
+  broadcast(room, { type: "chat", message });
+}
+
+// ===================== Game loop =====================
+/** Applies an action, pushes the new state to everyone and queues the next automatic step. */
+/**
+ * Applies `action` to the room's table. If a due step or an offered move fails, the round can't go
+ * on: it is called off with the wagers returned, and the error still goes back to the caller.
+ */
+export function dispatch(room: Room, action: Action) {
+  let table: TableState;
+  try {
+    table = reduce(room.table, action);
+  } catch (err) {
+    if (isStuck(room.table, action)) {
+      console.error(`Room ${room.code} is stuck on ${action.type}, calling off the round:`, err);
+      commit(room, abandonRound(room.table));
+    }
+    throw err;
+  }
+  commit(room, table);
+}
+
+function commit(room: Room, table: TableState) {
+  room.table = table;
+  broadcastState(room);
+  scheduleAuto(room);
+}
+
+function scheduleAuto(room: Room) {
+  if (room.timer) clearTimeout(room.timer);
+  room.timer = null;
+
+  const step = nextStep(room.table);
+  if (!step) return;
+  room.timer = setTimeout(() => {
+    room.timer = null;
+    if (!isDue(room.table, step.action)) return scheduleAuto(room);
+    try {
+      dispatch(room, step.action);
+    } catch (err) {
+      // Nobody to report to on a timer; dispatch has already got the room moving again.
+      if (!(err instanceof GameError)) console.error(`Room ${room.code} failed a ${step.action.type} step:`, err);
+    }
+  }, step.delay);
+}
+
+// ===================== Broadcasting =====================
+export function broadcast(room: Room, message: ServerMessage) {
+  const data = JSON.stringify(message);
+  for (const socket of [...room.sockets.keys(), ...room.spectators]) {
+    if (socket.readyState === socket.OPEN) socket.send(data);
+  }
+}
+
+function broadcastState(room: Room) {
+  broadcast(room, { type: "state", state: toPublicState(room.table), spectators: room.spectators.size });
+  for (const session of room.sessions.values()) sendLedger(room, session);
+  room.onChange();
+}
+
+function sendLedger(room: Room, session: Session) {
+  const entries = ledgerOf(room.table, session.playerId);
+  const fingerprint = `${entries.length}:${JSON.stringify(entries.at(-1))}`;
+  if (!session.socket || fingerprint === session.ledgerSent) return;
+  session.ledgerSent = fingerprint;
+  const message: ServerMessage = { type: "ledger", entries };
+  if (session.socket.readyState === session.socket.OPEN) session.socket.send(JSON.stringify(message));
+}
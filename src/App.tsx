@@ -1,51 +1,260 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useRef, useCallback, useMemo } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { MessageCircle, TrendingUp, HelpCircle, Volume2, VolumeX, Palette, Send } from "lucide-react";
+import { MessageCircle, TrendingUp, HelpCircle, Volume2, VolumeX, Palette, Send, Calculator, History, X, Download, Upload, Info, CheckCircle2, AlertTriangle, XCircle, Crown, Lock, LockOpen, ChevronUp, ChevronDown, UserX, Wallet, ShieldCheck, BarChart3, UserCog } from "lucide-react";
+import {
+  abandonRound,
+  bankrollOf,
+  calculateValue,
+  canForceStart,
+  cleanClientSeed,
+  createTable,
+  credentialProblem,
+  dealerTotal,
+  describeEvent,
+  describeHand,
+  drawPosition,
+  expectNumber,
+  expectRecord,
+  expectString,
+  exportHistoryJson,
+  filterHandStats,
+  finishRound,
+  formatHandLog,
+  formatHistoryLog,
+  GameError,
+  handCategory,
+  handStatsOf,
+  hiLoValue,
+  HistoryFileError,
+  isDecision,
+  isHoleCardRevealed,
+  isDue,
+  isHost,
+  isStuck,
+  isRecord,
+  offersSideBet,
+  legalActions,
+  mergeProfileData,
+  parseHistoryJson,
+  parseServerMessage,
+  profitSeries,
+  PROTOCOL_VERSION,
+  randomSeed,
+  ProtocolError,
+  recommendPlay,
+  recordFrame,
+  reduce,
+  returnByBet,
+  sameProfileData,
+  sessionsOf,
+  shoeSize,
+  nextStep,
+  startRound,
+  successRates,
+  toPlayerAction,
+  toPublicState,
+  trueCount,
+  validateBankroll,
+  validateHandStats,
+  validateProfileData,
+  validateRounds,
+  verifyShoe,
+  visibleCards,
+  winRateGrid,
+  UPCARDS,
+  DEFAULT_RULES,
+  describeRules,
+  RULE_PRESETS,
+  PERFECT_PAIRS_TABLES,
+  SIDE_BET_KINDS,
+  SIDE_BET_NAMES,
+  TWENTY_ONE_PLUS_3_TABLES,
+  type Action,
+  type Bankroll,
+  type Card,
+  type ChatMessage,
+  type Fairness,
+  type ClientMessage,
+  type Decision,
+  type ErrorCode,
+  type GameState,
+  type Hand,
+  type HandCategory,
+  type HandStat,
+  type HandResult,
+  type LedgerEntry,
+  type LedgerKind,
+  type OutgoingPayload,
+  type OutgoingType,
+  type Player,
+  type ProfileData,
+  type ProfileMessage,
+  type RoomSummary,
+  type RoundRecord,
+  type ShoeCheck,
+  type ShoeSeeds,
+  type ServerMessage,
+  type SideBetKind,
+  type StatMerge,
+  type TableMessage,
+  type TableRules,
+  type TableState,
+  type WinRateCell,
+} from "./engine/index.ts";
+import {
+  entry,
+  exportProfile,
+  importProfile,
+  loadLarge,
+  loadLocal,
+  numberFields,
+  ProfileFileError,
+  removeLocal,
+  saveLarge,
+  saveLocal,
+  type Entry,
+} from "./storage.ts";
 
 // ===================== Types =====================
-type Suit = "♠" | "♥" | "♦" | "♣";
-type Rank = "A" | "2" | "3" | "4" | "5" | "6" | "7" | "8" | "9" | "10" | "J" | "Q" | "K";
-type Card = { id: string; suit: Suit; rank: Rank };
 type Theme = "classic" | "neon" | "dark" | "luxury";
 
-interface Player {
-  id: string;
-  name: string;
-  stack: number;
-  bet: number;
-  insuranceBet?: number;
-  ready: boolean;
-  cards: Card[];
-  status: string;
-  result?: string;
-}
-
-interface GameState {
-  code: string;
-  players: Player[];
-  dealer: { cards: Card[] };
-  phase: "LOBBY" | "SHUFFLING" | "DEALING" | "INSURANCE" | "PLAYER" | "DEALER" | "RESULT";
-  turnIdx: number;
-}
-
-interface ChatMessage {
-  id: string;
-  playerId: string;
-  playerName: string;
-  text: string;
-  timestamp: number;
-}
-
 interface Stats {
   gamesPlayed: number;
   wins: number;
   losses: number;
   pushes: number;
   blackjacks: number;
+  surrenders: number;
   currentStreak: number;
   bestStreak: number;
+  sideBetsPlaced: number;
+  sideBetsWon: number;
+  sideBetsWagered: number;
+  /** Returned by winning side bets, stake included. */
+  sideBetsPaid: number;
+}
+
+interface StrategyStats {
+  byCategory: Record<HandCategory, { correct: number; total: number }>;
+  recentMistakes: { situation: string; taken: Decision; correct: Decision; timestamp: number }[];
+}
+
+const emptyStrategyStats = (): StrategyStats => ({
+  byCategory: { hard: { correct: 0, total: 0 }, soft: { correct: 0, total: 0 }, pair: { correct: 0, total: 0 } },
+  recentMistakes: [],
+});
+
+interface CountStats {
+  quizzes: number;
+  runningCorrect: number;
+  trueCorrect: number;
+}
+
+interface CountAnswer {
+  runningCount: number;
+  trueCount: number;
+}
+
+interface Prefs {
+  name: string;
+  theme: Theme;
+  hints: boolean;
+  trainer: boolean;
+  clientSeed: string;
 }
 
+// ===================== Storage =====================
+const DEFAULT_STATS: Stats = {
+  gamesPlayed: 0,
+  wins: 0,
+  losses: 0,
+  pushes: 0,
+  blackjacks: 0,
+  surrenders: 0,
+  currentStreak: 0,
+  bestStreak: 0,
+  sideBetsPlaced: 0,
+  sideBetsWon: 0,
+  sideBetsWagered: 0,
+  sideBetsPaid: 0,
+};
+
+const PREFS = entry<Prefs>(
+  "bj_prefs",
+  () => ({ name: "", theme: "classic", hints: false, trainer: false, clientSeed: randomSeed().slice(0, 16) }),
+  (value) => {
+    const prefs = expectRecord(value, "prefs");
+    return {
+      name: typeof prefs.name === "string" ? prefs.name : "",
+      theme: typeof prefs.theme === "string" && prefs.theme in themes ? (prefs.theme as Theme) : "classic",
+      hints: prefs.hints === true,
+      trainer: prefs.trainer === true,
+      clientSeed: typeof prefs.clientSeed === "string" && prefs.clientSeed ? prefs.clientSeed : randomSeed().slice(0, 16),
+    };
+  }
+);
+
+const STATS = entry("bj_stats", () => DEFAULT_STATS, numberFields(DEFAULT_STATS));
+
+const DEFAULT_COUNT_STATS: CountStats = { quizzes: 0, runningCorrect: 0, trueCorrect: 0 };
+const COUNT_STATS = entry("bj_count", () => DEFAULT_COUNT_STATS, numberFields(DEFAULT_COUNT_STATS));
+
+const STRATEGY_STATS = entry<StrategyStats>("bj_strategy", emptyStrategyStats, (value) => {
+  const saved = expectRecord(value, "strategy");
+  const byCategory = isRecord(saved.byCategory) ? saved.byCategory : {};
+  const empty = emptyStrategyStats();
+  const readCategory = numberFields({ correct: 0, total: 0 });
+  return {
+    byCategory: {
+      hard: isRecord(byCategory.hard) ? readCategory(byCategory.hard) : empty.byCategory.hard,
+      soft: isRecord(byCategory.soft) ? readCategory(byCategory.soft) : empty.byCategory.soft,
+      pair: isRecord(byCategory.pair) ? readCategory(byCategory.pair) : empty.byCategory.pair,
+    },
+    recentMistakes: (Array.isArray(saved.recentMistakes) ? saved.recentMistakes : []).filter(
+      (m): m is StrategyStats["recentMistakes"][number] =>
+        isRecord(m) && typeof m.situation === "string" && typeof m.timestamp === "number" && isDecision(m.taken as Decision) && isDecision(m.correct as Decision)
+    ),
+  };
+});
+
+const BANKROLL = entry<Bankroll | null>("bj_bankroll", () => null, (value) => validateBankroll(value));
+
+const SEAT_SESSION = entry<SeatSession | null>("bj_session", () => null, (value) => {
+  if (value === null) return null;
+  const session = expectRecord(value, "session");
+  return {
+    roomId: expectString(session.roomId, "session.roomId"),
+    playerId: expectString(session.playerId, "session.playerId"),
+    token: expectString(session.token, "session.token"),
+  };
+});
+
+/** The server profile this browser syncs with. Like the seat session, it stays with this browser. */
+const ACCOUNT = entry<Account | null>("bj_account", () => null, (value) => {
+  if (value === null) return null;
+  const account = expectRecord(value, "account");
+  return {
+    username: expectString(account.username, "account.username"),
+    token: account.token === null ? null : expectString(account.token, "account.token"),
+    revision: typeof account.revision === "number" ? account.revision : 0,
+    base: isRecord(account.base) ? validateProfileData(account.base, "account.base") : null,
+    pending: isRecord(account.pending)
+      ? {
+          id: expectString(account.pending.id, "account.pending.id"),
+          revision: expectNumber(account.pending.revision, "account.pending.revision"),
+          data: validateProfileData(account.pending.data, "account.pending.data"),
+        }
+      : null,
+  };
+});
+
+const HISTORY = entry<RoundRecord[]>("bj_history", () => [], (value) => validateRounds(value));
+const HAND_STATS = entry<HandStat[]>("bj_hand_stats", () => [], (value) => validateHandStats(value));
+
+/** What a profile file carries. The client id and seat session belong to this browser and stay behind. */
+const PROFILE_LOCAL = [PREFS, STATS, COUNT_STATS, STRATEGY_STATS, BANKROLL] as Entry<unknown>[];
+const PROFILE_LARGE = [HISTORY, HAND_STATS] as Entry<unknown>[];
+
 // ===================== Sound Hook =====================
 function useSounds() {
   const [muted, setMuted] = useState(false);
@@ -163,19 +372,253 @@ function useSounds() {
   return { sounds, muted, setMuted };
 }
 
+// ===================== Notifications Hook =====================
+type Severity = "info" | "success" | "warning" | "error";
+/** The control a notice is about, so it can be repeated right next to it. */
+type NoticeTarget = "join" | "bet" | "actions" | "host" | "profile";
+
+interface Notice {
+  id: number;
+  severity: Severity;
+  message: string;
+  code?: ErrorCode;
+  target?: NoticeTarget;
+  /** Stays up until dismissed, for problems a timeout would hide. */
+  sticky?: boolean;
+}
+
+type Notify = (severity: Severity, message: string, options?: Pick<Notice, "code" | "target" | "sticky">) => void;
+
+const NOTICE_TTL_MS: Record<Severity, number> = { info: 3000, success: 3000, warning: 5000, error: 8000 };
+const NOTICE_LIMIT = 4;
+
+/** A refused move is part of play; a broken connection or server fault is not. */
+const ERROR_SEVERITY: Record<ErrorCode, Severity> = {
+  BAD_MESSAGE: "error",
+  VERSION_MISMATCH: "error",
+  NOT_SEATED: "warning",
+  ROOM_NOT_FOUND: "warning",
+  AUTH_FAILED: "warning",
+  USERNAME_TAKEN: "warning",
+  NOT_SIGNED_IN: "warning",
+  PROFILE_TOO_LARGE: "warning",
+  INTERNAL: "error",
+  ROOM_FULL: "warning",
+  ROOM_LOCKED: "warning",
+  WRONG_PASSWORD: "warning",
+  NOT_HOST: "warning",
+  INSUFFICIENT_STACK: "warning",
+  NOT_YOUR_TURN: "info",
+  INVALID_BET: "warning",
+  GAME_RULE: "warning",
+};
+
+/** Where the reply to each message belongs. Errors answer the last message sent. */
+const MESSAGE_TARGETS: Partial<Record<ClientMessage["type"], NoticeTarget>> = {
+  join: "join",
+  resume: "join",
+  watch: "join",
+  sit: "bet",
+  ready: "bet",
+  bet: "bet",
+  start: "bet",
+  rebuy: "bet",
+  sideBet: "bet",
+  insurance: "actions",
+  declineInsurance: "actions",
+  evenMoney: "actions",
+  hit: "actions",
+  stand: "actions",
+  double: "actions",
+  split: "actions",
+  surrender: "actions",
+  forceStart: "bet",
+  kick: "host",
+  lock: "host",
+  setPassword: "host",
+  moveSeat: "host",
+  transferHost: "host",
+  signUp: "profile",
+  signIn: "profile",
+  signOut: "profile",
+};
+
+function useNotifications() {
+  const [notices, setNotices] = useState<Notice[]>([]);
+  const nextIdRef = useRef(0);
+  const timersRef = useRef(new Map<number, number>());
+
+  const dismiss = useCallback((id: number) => {
+    clearTimeout(timersRef.current.get(id));
+    timersRef.current.delete(id);
+    setNotices(prev => prev.filter(n => n.id !== id));
+  }, []);
+
+  const notify = useCallback<Notify>((severity, message, options = {}) => {
+    const id = ++nextIdRef.current;
+    // A repeated message moves to the front instead of stacking up.
+    setNotices(prev => [...prev.filter(n => n.message !== message), { id, severity, message, ...options }].slice(-NOTICE_LIMIT));
+    if (!options.sticky) timersRef.current.set(id, window.setTimeout(() => dismiss(id), NOTICE_TTL_MS[severity]));
+  }, [dismiss]);
+
+  useEffect(() => {
+    const timers = timersRef.current;
+    return () => timers.forEach(timer => clearTimeout(timer));
+  }, []);
+
+  return { notices, notify, dismiss };
+}
+
+/** Reports a refused action with the severity and placement its code calls for. */
+const notifyError = (notify: Notify, code: ErrorCode, message: string, sent?: ClientMessage["type"]) =>
+  notify(ERROR_SEVERITY[code], message, {
+    code,
+    target: sent ? MESSAGE_TARGETS[sent] : undefined,
+    sticky: code === "VERSION_MISMATCH",
+  });
+
 // ===================== WS Hook =====================
-function useWs(url: string) {
+/** `rules` and `isPublic` only apply when the join opens a new room. */
+interface JoinOptions {
+  rules?: TableRules;
+  password?: string;
+  isPublic?: boolean;
+}
+
+/** What the server handed us on join; enough to take the seat back after a reconnect or reload. */
+interface SeatSession {
+  roomId: string;
+  playerId: string;
+  token: string;
+}
+
+/** A random id kept for the life of this browser profile. The server ties seat tokens to it. */
+function getClientId(): string {
+  let id = localStorage.getItem("bj_client_id");
+  if (!id) {
+    id = crypto.randomUUID();
+    localStorage.setItem("bj_client_id", id);
+  }
+  return id;
+}
+
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+/** Actions taken during a blip are replayed on reconnect if they are younger than this. */
+const QUEUE_TTL_MS = 10000;
+const QUEUE_LIMIT = 5;
+/** Least time between two resyncs after unreadable frames from the server. */
+const RESYNC_INTERVAL_MS = 10000;
+
+/** Exponential backoff with "equal jitter": half the capped delay is fixed, the other half random. */
+const backoffDelay = (attempt: number) => {
+  const capped = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** attempt);
+  return capped / 2 + Math.random() * (capped / 2);
+};
+
+function useWs(url: string, notify: Notify) {
   const wsRef = useRef<WebSocket | null>(null);
   const reconnectTimeoutRef = useRef<number | null>(null);
+  const attemptRef = useRef(0);
+  const disposedRef = useRef(false);
+  const sessionRef = useRef<SeatSession | null>(loadLocal(SEAT_SESSION));
+  const queueRef = useRef<{ message: ClientMessage; queuedAt: number }[]>([]);
+  // Set when the server speaks another protocol version; retrying won't help until a reload.
+  const incompatibleRef = useRef(false);
+  const lastSentRef = useRef<ClientMessage["type"] | undefined>(undefined);
+  const resyncedAtRef = useRef(0);
+  // The room followed as a spectator, so a reconnect can pick it up again.
+  const watchingRef = useRef<string | null>(null);
+  const browsingRef = useRef(false);
+  const profileListenersRef = useRef(new Set<(reply: ProfileReply) => void>());
   const [connected, setConnected] = useState(false);
   const [state, setState] = useState<GameState | null>(null);
+  const [playerId, setPlayerId] = useState<string | null>(null);
   const [reconnecting, setReconnecting] = useState(false);
+  const [retryAt, setRetryAt] = useState<number | null>(null);
+  const [queued, setQueued] = useState(0);
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  const [watching, setWatchingState] = useState(false);
+  const [spectators, setSpectators] = useState(0);
+  const [rooms, setRooms] = useState<RoomSummary[]>([]);
+  /** Server clock minus ours, so turn deadlines count down the same for everyone. */
+  const [clockOffset, setClockOffset] = useState(0);
+  const [ledger, setLedger] = useState<LedgerEntry[]>([]);
+
+  const setQueue = (queue: typeof queueRef.current) => {
+    queueRef.current = queue;
+    setQueued(queue.length);
+  };
+
+  const setWatching = (roomId: string | null) => {
+    watchingRef.current = roomId;
+    setWatchingState(roomId !== null);
+  };
+
+  const saveSession = (session: SeatSession | null) => {
+    sessionRef.current = session;
+    if (session) saveLocal(SEAT_SESSION, session);
+    else removeLocal(SEAT_SESSION);
+  };
+
+  const dropSeat = () => {
+    saveSession(null);
+    setWatching(null);
+    setPlayerId(null);
+    setState(null);
+    setSpectators(0);
+    setChatMessages([]);
+    setLedger([]);
+    setQueue([]);
+  };
+
+  /** Replays what was queued during the outage, once the server has given the seat back. */
+  const flushQueue = (ws: WebSocket) => {
+    const now = Date.now();
+    const fresh = queueRef.current.filter(a => now - a.queuedAt <= QUEUE_TTL_MS);
+    const expired = queueRef.current.length - fresh.length;
+    setQueue([]);
+    for (const queued of fresh) sendMessage(ws, queued.message);
+    if (expired > 0) {
+      notify("warning", `${expired} action${expired > 1 ? "s were" : " was"} dropped: the connection was down for too long`);
+    }
+  };
+
+  const sendMessage = (ws: WebSocket, message: ClientMessage) => {
+    if (message.type !== "hello") lastSentRef.current = message.type;
+    ws.send(JSON.stringify(message));
+  };
+
+  /**
+   * Starts over on a fresh connection, which resumes the seat (or the room being watched) and
+   * brings back the full state. Limited to one try per `RESYNC_INTERVAL_MS` in case the server
+   * keeps sending the same bad frame.
+   */
+  const resync = (ws: WebSocket) => {
+    if (Date.now() - resyncedAtRef.current < RESYNC_INTERVAL_MS) return;
+    resyncedAtRef.current = Date.now();
+    ws.close();
+  };
+
+  const scheduleReconnect = () => {
+    if (reconnectTimeoutRef.current) clearTimeout(reconnectTimeoutRef.current);
+    const delay = backoffDelay(attemptRef.current);
+    attemptRef.current++;
+    setRetryAt(Date.now() + delay);
+    reconnectTimeoutRef.current = window.setTimeout(() => {
+      reconnectTimeoutRef.current = null;
+      console.log(`🔄 Reconnecting (attempt ${attemptRef.current})...`);
+      connect();
+    }, delay);
+  };
 
   const connect = () => {
-    if (wsRef.current?.readyState === WebSocket.OPEN) return;
+    const current = wsRef.current;
+    if (current && (current.readyState === WebSocket.OPEN || current.readyState === WebSocket.CONNECTING)) return;
+    if (incompatibleRef.current) return;
 
     setReconnecting(true);
+    setRetryAt(null);
     const ws = new WebSocket(url);
     wsRef.current = ws;
     
@@ -183,79 +626,660 @@ function useWs(url: string) {
       console.log("✅ Connected");
       setConnected(true);
       setReconnecting(false);
+      setRetryAt(null);
+      attemptRef.current = 0;
       if (reconnectTimeoutRef.current) {
         clearTimeout(reconnectTimeoutRef.current);
         reconnectTimeoutRef.current = null;
       }
+      // The server answers hello before anything else, so the resume can follow right away.
+      sendMessage(ws, { type: "hello", version: PROTOCOL_VERSION });
+      const session = sessionRef.current;
+      if (session) {
+        sendMessage(ws, { type: "resume", roomId: session.roomId, payload: { clientId: getClientId(), token: session.token } });
+      } else if (watchingRef.current) {
+        sendMessage(ws, { type: "watch", roomId: watchingRef.current });
+      }
+      if (browsingRef.current) sendMessage(ws, { type: "listRooms" });
     };
     
     ws.onclose = () => {
+      if (disposedRef.current || incompatibleRef.current || wsRef.current !== ws) return;
       console.log("❌ Disconnected");
       setConnected(false);
       setReconnecting(true);
-      
-      reconnectTimeoutRef.current = window.setTimeout(() => {
-        console.log("🔄 Reconnecting...");
-        connect();
-      }, 2000);
+      scheduleReconnect();
     };
     
     ws.onmessage = (e) => {
+      let data;
       try {
-        const data = JSON.parse(e.data);
-        console.log("📨 Received:", data);
-        
-        if (data.type === "chat") {
+        data = parseServerMessage(String(e.data));
+      } catch (err) {
+        if (!(err instanceof ProtocolError)) throw err;
+        console.error(`Rejected server frame [${err.code}]: ${err.message}`, e.data);
+        notifyError(notify, err.code, "Got an update from the server this client couldn't read, resyncing");
+        resync(ws);
+        return;
+      }
+
+      switch (data.type) {
+        case "welcome":
+          setClockOffset(data.serverTime - Date.now());
+          break;
+        case "chat":
           setChatMessages(prev => [...prev, data.message].slice(-50));
-        } else if (data.type === "state") {
+          break;
+        case "state":
           setState(data.state);
-        } else if (data.type === "error") {
-          alert(data.message);
-          setReconnecting(false);
-        }
-      } catch (err) {
-        console.error("Parse error:", err);
+          setSpectators(data.spectators);
+          break;
+        case "watching":
+          setWatching(data.roomId);
+          break;
+        case "rooms":
+          setRooms(data.rooms);
+          break;
+        case "ledger":
+          setLedger(data.entries);
+          break;
+        case "joined":
+          setWatching(null);
+          saveSession({ roomId: data.roomId, playerId: data.playerId, token: data.token });
+          setPlayerId(data.playerId);
+          flushQueue(ws);
+          break;
+        case "sessionExpired":
+          dropSeat();
+          notify("warning", data.message, { target: "join" });
+          break;
+        case "signedIn":
+        case "profile":
+        case "profileSaved":
+        case "signedOut":
+          for (const listener of profileListenersRef.current) listener(data);
+          break;
+        case "error":
+          if (data.code === "VERSION_MISMATCH") {
+            incompatibleRef.current = true;
+            setReconnecting(false);
+          }
+          notifyError(notify, data.code, data.message, lastSentRef.current);
+          break;
       }
     };
     
     ws.onerror = () => setReconnecting(true);
   };
 
+  /** Skips the rest of the backoff wait, e.g. from the overlay's button or when the browser comes back online. */
+  const reconnectNow = () => {
+    if (reconnectTimeoutRef.current) clearTimeout(reconnectTimeoutRef.current);
+    reconnectTimeoutRef.current = null;
+    connect();
+  };
+
   useEffect(() => {
+    disposedRef.current = false;
     connect();
+    window.addEventListener("online", reconnectNow);
     return () => {
+      disposedRef.current = true;
+      window.removeEventListener("online", reconnectNow);
       if (reconnectTimeoutRef.current) clearTimeout(reconnectTimeoutRef.current);
       wsRef.current?.close();
     };
   }, [url]);
 
-  const send = (type: string, payload?: any) => {
-    if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) return;
-    wsRef.current.send(JSON.stringify({ type, payload }));
+  const send = <T extends OutgoingType>(type: T, payload?: OutgoingPayload<T>) => {
+    const message = { type, payload } as ClientMessage;
+    if (type === "leave") dropSeat();
+    const ws = wsRef.current;
+    if (ws?.readyState === WebSocket.OPEN) {
+      sendMessage(ws, message);
+      return;
+    }
+    // A seat we walked away from is given up once the server's grace window runs out.
+    if (type === "leave") return;
+
+    // Hold on to actions during a blip; with no seat to go back to there is nothing to replay them into.
+    if (!sessionRef.current) {
+      notify("error", "Not connected to the server", { target: MESSAGE_TARGETS[type] });
+    } else if (queueRef.current.length >= QUEUE_LIMIT) {
+      notify("warning", "Still reconnecting, that action was not sent", { target: MESSAGE_TARGETS[type] });
+    } else {
+      setQueue([...queueRef.current, { message, queuedAt: Date.now() }]);
+    }
+  };
+
+  const joinRoom = (roomId: string, playerName: string, options: JoinOptions = {}) => {
+    if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) {
+      notify("error", "Not connected to the server", { target: "join" });
+      return;
+    }
+    sendMessage(wsRef.current, { type: "join", roomId, payload: { name: playerName, ...options, clientId: getClientId() } });
+  };
+
+  /** Follows the public room list while `open`; picked up again after a reconnect. */
+  const browseRooms = useCallback((open: boolean) => {
+    browsingRef.current = open;
+    if (!open) setRooms([]);
+    const ws = wsRef.current;
+    const message: ClientMessage = { type: open ? "listRooms" : "unlistRooms" };
+    if (ws?.readyState === WebSocket.OPEN) ws.send(JSON.stringify(message));
+  }, []);
+
+  const watchRoom = (roomId: string) => {
+    if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) {
+      notify("error", "Not connected to the server", { target: "join" });
+      return;
+    }
+    sendMessage(wsRef.current, { type: "watch", roomId });
+  };
+
+  /** Asks for a free seat at the watched table. The server answers with `joined`, as for a normal join. */
+  const takeSeat = (playerName: string, password?: string) => {
+    if (wsRef.current?.readyState !== WebSocket.OPEN) {
+      notify("error", "Not connected to the server", { target: "bet" });
+      return;
+    }
+    sendMessage(wsRef.current, { type: "sit", payload: { name: playerName, password, clientId: getClientId() } });
+  };
+
+  /** Sends a profile message if connected. Returns whether it went out. */
+  const sendProfile = useCallback((message: ProfileMessage) => {
+    const ws = wsRef.current;
+    if (ws?.readyState !== WebSocket.OPEN) return false;
+    // Background syncing shouldn't take over where the errors of the last thing the player did are shown.
+    if (message.type !== "resumeProfile" && message.type !== "saveProfile") lastSentRef.current = message.type;
+    ws.send(JSON.stringify(message));
+    return true;
+  }, []);
+
+  /** Passes profile replies to `listener` until the returned function is called. */
+  const onProfileReply = useCallback((listener: (reply: ProfileReply) => void) => {
+    const listeners = profileListenersRef.current;
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }, []);
+
+  return {
+    connected,
+    state,
+    playerId,
+    send,
+    joinRoom,
+    watchRoom,
+    takeSeat,
+    watching,
+    spectators,
+    rooms,
+    browseRooms,
+    clockOffset,
+    ledger,
+    reconnecting,
+    retryAt,
+    queued,
+    reconnectNow,
+    chatMessages,
+    sendProfile,
+    onProfileReply,
+  };
+}
+
+// ===================== Local Table Hook =====================
+const LOCAL_PLAYER_ID = "local-player";
+
+/** Runs a single-player table in the browser. Same shape as `useWs`, so the UI can't tell the difference. */
+function useLocalTable(notify: Notify) {
+  const tableRef = useRef<TableState | null>(null);
+  const timerRef = useRef<number | null>(null);
+  const [state, setState] = useState<GameState | null>(null);
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  const [ledger, setLedger] = useState<LedgerEntry[]>([]);
+  const [bankroll, setBankroll] = useState(() => loadLocal(BANKROLL));
+
+  const clearTimer = () => {
+    if (timerRef.current) clearTimeout(timerRef.current);
+    timerRef.current = null;
   };
 
-  const joinRoom = (roomId: string, playerName: string) => {
-    if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) return;
-    wsRef.current.send(JSON.stringify({ type: "join", roomId, payload: { name: playerName } }));
+  useEffect(() => clearTimer, []);
+
+  const apply = (action: Action) => {
+    if (!tableRef.current) return;
+    try {
+      tableRef.current = reduce(tableRef.current, action);
+    } catch (err) {
+      if (!isStuck(tableRef.current, action)) throw err;
+      // As on the server: a round that can't go on is called off and the wagers handed back.
+      console.error(`Practice table stuck on ${action.type}, calling off the round:`, err);
+      tableRef.current = abandonRound(tableRef.current);
+      notify("warning", "Something went wrong mid-round, so it was called off and your bets returned");
+    }
+    setState(toPublicState(tableRef.current));
+    saveBankroll();
+    scheduleNext();
+  };
+
+  /** The local seat's bankroll outlives the table, so it is there again after a reload. */
+  const saveBankroll = () => {
+    if (!tableRef.current) return;
+    const bankroll = bankrollOf(tableRef.current, LOCAL_PLAYER_ID);
+    if (!bankroll) return;
+    saveLocal(BANKROLL, bankroll);
+    setBankroll(bankroll);
+    setLedger(bankroll.ledger);
+  };
+
+  /** Swaps in a bankroll from elsewhere, e.g. a synced profile. It is used from the next table on. */
+  const replaceBankroll = (next: Bankroll | null) => {
+    if (next) saveLocal(BANKROLL, next);
+    else removeLocal(BANKROLL);
+    setBankroll(next);
+  };
+
+  const scheduleNext = () => {
+    clearTimer();
+    const step = tableRef.current && nextStep(tableRef.current);
+    if (!step) return;
+    timerRef.current = window.setTimeout(() => {
+      if (!tableRef.current) return;
+      if (isDue(tableRef.current, step.action)) apply(step.action);
+      else scheduleNext();
+    }, step.delay);
+  };
+
+  const send = <T extends OutgoingType>(type: T, payload?: OutgoingPayload<T>) => {
+    const table = tableRef.current;
+    if (!table) return;
+
+    if (type === "leave") {
+      clearTimer();
+      tableRef.current = null;
+      setState(null);
+      setChatMessages([]);
+      return;
+    }
+
+    if (type === "chat") {
+      const text = (payload as OutgoingPayload<"chat">).text.trim();
+      const me = table.players.find(p => p.id === LOCAL_PLAYER_ID);
+      if (!text || !me) return;
+      const message = { id: crypto.randomUUID(), playerId: me.id, playerName: me.name, text, timestamp: Date.now() };
+      setChatMessages(prev => [...prev, message].slice(-50));
+      return;
+    }
+
+    try {
+      apply(toPlayerAction({ type, payload } as TableMessage, LOCAL_PLAYER_ID));
+    } catch (err) {
+      if (!(err instanceof GameError)) throw err;
+      notifyError(notify, err.code, err.message, type);
+    }
+  };
+
+  const joinRoom = (roomId: string, playerName: string, { rules }: JoinOptions = {}) => {
+    clearTimer();
+    const table = createTable(roomId, rules);
+    // There's nobody to lose to at a practice table: a bankroll that can't play here any more starts over.
+    const saved = loadLocal(BANKROLL) ?? undefined;
+    const playable = saved && (saved.stack >= table.rules.minBet || saved.rebuys < table.rules.maxRebuys);
+    tableRef.current = reduce(table, { type: "join", playerId: LOCAL_PLAYER_ID, name: playerName, bankroll: playable ? saved : undefined });
+    setState(toPublicState(tableRef.current));
+    saveBankroll();
+    setChatMessages([]);
+  };
+
+  const playerId = state ? LOCAL_PLAYER_ID : null;
+  return { connected: true, state, playerId, send, joinRoom, reconnecting: false, chatMessages, clockOffset: 0, ledger, bankroll, replaceBankroll };
+}
+
+// ===================== Shoe Tracker Hook =====================
+/** Counts every card that has been face up since the last shuffle (or since we sat down mid-shoe). */
+function useShoeTracker(state: GameState | null) {
+  const seenRef = useRef(new Set<string>());
+  const codeRef = useRef<string | null>(null);
+  const [count, setCount] = useState({ seen: 0, runningCount: 0 });
+
+  useEffect(() => {
+    const code = state?.code ?? null;
+    if (!state || state.phase === "SHUFFLING" || code !== codeRef.current) {
+      codeRef.current = code;
+      seenRef.current.clear();
+      setCount({ seen: 0, runningCount: 0 });
+      if (!state || state.phase === "SHUFFLING") return;
+    }
+
+    const fresh = visibleCards(state).filter(card => !seenRef.current.has(card.id));
+    if (fresh.length === 0) return;
+    for (const card of fresh) seenRef.current.add(card.id);
+    setCount(prev => ({
+      seen: prev.seen + fresh.length,
+      runningCount: prev.runningCount + fresh.reduce((sum, card) => sum + hiLoValue(card), 0),
+    }));
+  }, [state]);
+
+  const total = shoeSize(state?.rules.decks ?? DEFAULT_RULES.decks);
+  const remaining = Math.max(total - count.seen, 0);
+  return {
+    ...count,
+    remaining,
+    penetration: count.seen / total,
+    trueCount: trueCount(count.runningCount, remaining),
+  };
+}
+
+// ===================== Dealt Cards Hook =====================
+const DEALT_SHOES_KEPT = 6;
+
+/** Every card seen per shoe, in the order it came out, for checking revealed shoes. */
+function useDealtCards(state: GameState | null) {
+  const orderRef = useRef(new Map<number, string[]>());
+  const cardsRef = useRef(new Map<string, Card>());
+
+  useEffect(() => {
+    if (!state) return;
+    const all = [...state.dealer.cards, ...state.players.flatMap(p => p.hands.flatMap(h => h.cards))];
+    // Cards that show up together (a split, or the table as we first see it) are put in draw order.
+    const fresh = all.filter(card => !orderRef.current.get(shoeOf(card))?.includes(card.id));
+    for (const card of fresh.sort((a, b) => drawPosition(a) - drawPosition(b))) {
+      const shoe = shoeOf(card);
+      orderRef.current.set(shoe, [...(orderRef.current.get(shoe) ?? []), card.id]);
+    }
+    // The hole card only counts once it is face up.
+    for (const card of visibleCards(state)) cardsRef.current.set(card.id, card);
+
+    const shoes = [...orderRef.current.keys()].sort((a, b) => b - a);
+    for (const old of shoes.slice(DEALT_SHOES_KEPT)) {
+      for (const id of orderRef.current.get(old) ?? []) cardsRef.current.delete(id);
+      orderRef.current.delete(old);
+    }
+  }, [state]);
+
+  return useCallback(
+    (shoeNo: number) => (orderRef.current.get(shoeNo) ?? []).flatMap(id => cardsRef.current.get(id) ?? []),
+    []
+  );
+}
+
+const shoeOf = (card: Card) => Number(card.id.split("-")[0]);
+
+// ===================== Hand History Hook =====================
+const HISTORY_LIMIT = 30;
+
+/** Records every round this client sees, from the last LOBBY frame (seats and bets) through RESULT. */
+function useHandHistory(state: GameState | null, playerId: string | null) {
+  const [rounds, setRounds] = useState<RoundRecord[]>([]);
+  // Nothing is written back until the saved history has been read, or it would be overwritten.
+  const [loaded, setLoaded] = useState(false);
+  const currentRef = useRef<RoundRecord | null>(null);
+  const lastRef = useRef<GameState | null>(null);
+
+  useEffect(() => {
+    loadLarge(HISTORY).then(saved => {
+      setRounds(list => [...list, ...saved].slice(0, HISTORY_LIMIT));
+      setLoaded(true);
+    });
+  }, []);
+
+  useEffect(() => {
+    if (loaded) saveLarge(HISTORY, rounds);
+  }, [rounds, loaded]);
+
+  useEffect(() => {
+    const prev = lastRef.current;
+    lastRef.current = state;
+    if (!state || prev?.code !== state.code) currentRef.current = null;
+    if (!state) return;
+
+    if (!currentRef.current) {
+      if (prev?.code === state.code && prev.phase === "LOBBY" && state.phase !== "LOBBY") {
+        currentRef.current = recordFrame(startRound(prev, crypto.randomUUID(), Date.now(), playerId), state);
+      }
+      return;
+    }
+
+    currentRef.current = recordFrame(currentRef.current, state);
+    if (state.phase === "RESULT") {
+      const finished = finishRound(currentRef.current, Date.now());
+      currentRef.current = null;
+      setRounds(list => [finished, ...list].slice(0, HISTORY_LIMIT));
+    }
+  }, [state, playerId]);
+
+  /** Merges rounds from a file, replacing any we already hold with the same id. */
+  const addRounds = (added: RoundRecord[]) => {
+    setRounds(list => {
+      const ids = new Set(added.map(r => r.id));
+      return [...added, ...list.filter(r => !ids.has(r.id))]
+        .sort((a, b) => b.startedAt - a.startedAt)
+        .slice(0, HISTORY_LIMIT);
+    });
+  };
+
+  return { rounds, addRounds, clearHistory: () => setRounds([]) };
+}
+
+// ===================== Hand Stats Hook =====================
+const HAND_STATS_LIMIT = 5000;
+
+/**
+ * Turns each round this player finishes into per-hand stats. A session lasts as long as the client
+ * stays at one table.
+ */
+function useHandStats(rounds: RoundRecord[], code: string | null, playerId: string | null) {
+  const [handStats, setHandStats] = useState<HandStat[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const sessionRef = useRef<{ code: string; id: string } | null>(null);
+
+  useEffect(() => {
+    loadLarge(HAND_STATS).then(saved => {
+      setHandStats(list => [...saved, ...list].slice(-HAND_STATS_LIMIT));
+      setLoaded(true);
+    });
+  }, []);
+
+  useEffect(() => {
+    if (loaded) saveLarge(HAND_STATS, handStats);
+  }, [handStats, loaded]);
+
+  useEffect(() => {
+    if (sessionRef.current?.code !== code) sessionRef.current = code ? { code, id: crypto.randomUUID() } : null;
+  }, [code]);
+
+  const latest = rounds[0];
+  useEffect(() => {
+    const session = sessionRef.current;
+    if (!latest || !session || latest.code !== session.code || latest.viewerId !== playerId) return;
+    const added = handStatsOf(latest, session.id);
+    if (added.length === 0) return;
+    setHandStats(list => (list.some(s => s.roundId === latest.id) ? list : [...list, ...added].slice(-HAND_STATS_LIMIT)));
+  }, [latest, playerId]);
+
+  return handStats;
+}
+
+// ===================== Profile Sync Hook =====================
+type ProfileReply = Extract<ServerMessage, { type: "signedIn" | "profile" | "profileSaved" | "signedOut" }>;
+
+/** A save sent to the server and not yet answered. */
+interface PendingSave {
+  id: string;
+  revision: number;
+  data: ProfileData;
+}
+
+/** This browser's link to a server profile. */
+interface Account {
+  username: string;
+  /** `null` once signed out. The rest is kept, so signing back in doesn't count the same games twice. */
+  token: string | null;
+  revision: number;
+  /** The copy this browser and the server last agreed on; `null` before the first sync here. */
+  base: ProfileData | null;
+  /** Kept across reloads: if the answer got lost, the server's `applied` list says whether it went through. */
+  pending: PendingSave | null;
+}
+
+/** How stats combine when two devices both played. Anything not listed is summed. */
+const STAT_MERGE: Partial<Record<keyof Stats, StatMerge>> = { bestStreak: "max", currentStreak: "latest" };
+/** Changes are saved once they have settled for this long, not after every hand. */
+const PROFILE_SAVE_DELAY_MS = 1000;
+
+interface ProfileSyncOptions {
+  connected: boolean;
+  sendProfile: (message: ProfileMessage) => boolean;
+  onProfileReply: (listener: (reply: ProfileReply) => void) => () => void;
+  notify: Notify;
+  /** What this browser has now. Keep it memoized: every new object restarts the save delay. */
+  local: ProfileData;
+  /** Takes on data merged with the server's copy. */
+  apply: (data: ProfileData) => void;
+}
+
+/**
+ * Keeps local stats, settings and bankroll in step with a server profile. Each sync is a
+ * three-way merge against the last agreed copy, so games played on two devices both count.
+ */
+function useProfileSync({ connected, sendProfile, onProfileReply, notify, local, apply }: ProfileSyncOptions) {
+  const [account, setAccountState] = useState(() => loadLocal(ACCOUNT));
+  const [ready, setReady] = useState(false);
+  // Replies can arrive back to back, before a render; the refs always hold the latest.
+  const accountRef = useRef(account);
+  const latestRef = useRef({ local, apply });
+  /** Whether the pending save went out on the current connection, so an answer may still come. */
+  const inFlightRef = useRef(false);
+
+  useEffect(() => {
+    latestRef.current = { local, apply };
+  });
+
+  const setAccount = useCallback((next: Account | null) => {
+    accountRef.current = next;
+    setAccountState(next);
+    saveLocal(ACCOUNT, next);
+  }, []);
+
+  useEffect(() => {
+    inFlightRef.current = false;
+    setReady(false);
+    const token = accountRef.current?.token;
+    if (connected && token) sendProfile({ type: "resumeProfile", payload: { token } });
+  }, [connected, sendProfile]);
+
+  useEffect(() => onProfileReply(reply => {
+    const account = accountRef.current;
+    switch (reply.type) {
+      case "signedIn": {
+        const same = account?.username === reply.username;
+        setAccount(
+          same
+            ? { ...account, token: reply.token }
+            : { username: reply.username, token: reply.token, revision: 0, base: null, pending: null }
+        );
+        break;
+      }
+      case "profile": {
+        if (!account?.token) break;
+        const { local, apply } = latestRef.current;
+        const { pending } = account;
+        const applied = !!pending && reply.applied.includes(pending.id);
+        // A save made against this very revision may still be taken; anything else was turned down or lost.
+        const waiting = !!pending && !applied && inFlightRef.current && pending.revision === reply.revision;
+        if (reply.data) {
+          // The first time on this browser its games are added on, but its settings give way to the profile's.
+          const base = applied ? pending.data : (account.base ?? { stats: {}, prefs: local.prefs, bankroll: null });
+          const merged = mergeProfileData(base, local, reply.data, STAT_MERGE);
+          if (!sameProfileData(merged, local)) apply(merged);
+        }
+        setAccount({ ...account, revision: reply.revision, base: reply.data, pending: waiting ? pending : null });
+        setReady(true);
+        break;
+      }
+      case "profileSaved":
+        if (account?.pending?.id !== reply.id) break;
+        setAccount({ ...account, revision: reply.revision, base: account.pending.data, pending: null });
+        break;
+      case "signedOut":
+        if (account) setAccount({ ...account, token: null });
+        setReady(false);
+        notify("info", reply.message, { target: "profile" });
+        break;
+    }
+  }), [onProfileReply, setAccount, notify]);
+
+  const token = account?.token ?? null;
+  const base = account?.base ?? null;
+  const pending = account?.pending ?? null;
+  useEffect(() => {
+    if (!connected || !ready || !token || pending) return;
+    if (base && sameProfileData(local, base)) return;
+    const timer = window.setTimeout(() => {
+      const current = accountRef.current;
+      if (!current) return;
+      const save = { id: crypto.randomUUID(), revision: current.revision, data: local };
+      if (!sendProfile({ type: "saveProfile", payload: save })) return;
+      inFlightRef.current = true;
+      setAccount({ ...current, pending: save });
+    }, PROFILE_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [connected, ready, token, base, pending, local, sendProfile, setAccount]);
+
+  const signIn = (username: string, passphrase: string, create: boolean) => {
+    const problem = credentialProblem(username, passphrase);
+    if (problem) {
+      notify("warning", problem, { target: "profile" });
+      return;
+    }
+    if (!sendProfile({ type: create ? "signUp" : "signIn", payload: { username, passphrase } })) {
+      notify("error", "Not connected to the server", { target: "profile" });
+    }
   };
 
-  return { connected, state, send, joinRoom, reconnecting, chatMessages };
+  /** Without a connection, this browser just forgets the sign-in. */
+  const signOut = () => {
+    if (sendProfile({ type: "signOut" })) return;
+    if (account) setAccount({ ...account, token: null });
+    setReady(false);
+  };
+
+  return {
+    username: token && account ? account.username : null,
+    ready: connected && ready,
+    syncing: pending !== null,
+    signIn,
+    signOut,
+  };
 }
 
 // ===================== Utils =====================
 const generateRoomCode = () => Math.random().toString(36).substring(2, 8).toUpperCase();
 
-const calculateValue = (cards: Card[]): number => {
-  let sum = 0, aces = 0;
-  for (const c of cards) {
-    if (c.rank === "A") { aces++; sum += 11; }
-    else if (["J", "Q", "K"].includes(c.rank)) sum += 10;
-    else sum += parseInt(c.rank);
-  }
-  while (sum > 21 && aces > 0) { sum -= 10; aces--; }
-  return sum;
+const CHIP_VALUES = [1, 5, 25, 100, 500, 1000, 5000];
+const chipsFor = (rules: TableRules) => CHIP_VALUES.filter(c => c >= rules.minBet && c <= rules.maxBet);
+
+const downloadFile = (filename: string, contents: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const exportRounds = (rounds: RoundRecord[], format: "json" | "txt") => {
+  const stamp = new Date().toISOString().slice(0, 10);
+  const name = rounds.length === 1 ? `blackjack-hand-${rounds[0].id.slice(0, 8)}` : `blackjack-history-${stamp}`;
+  if (format === "json") downloadFile(`${name}.json`, exportHistoryJson(rounds), "application/json");
+  else downloadFile(`${name}.txt`, formatHistoryLog(rounds), "text/plain");
 };
 
+/** Chance that the count trainer quizzes you when a new round opens. */
+const QUIZ_CHANCE = 0.35;
+
 const themes = {
   classic: "from-green-800 via-green-900 to-green-950",
   neon: "from-purple-900 via-pink-900 to-blue-900",
@@ -265,7 +1289,7 @@ const themes = {
 
 // ===================== Components =====================
 
-function ShuffleAnimation({ sounds }: { sounds: any }) {
+function ShuffleAnimation({ sounds, commitment }: { sounds: any; commitment?: string }) {
   useEffect(() => {
     sounds.shuffle();
   }, []);
@@ -290,25 +1314,215 @@ function ShuffleAnimation({ sounds }: { sounds: any }) {
         >
           Shuffling Deck...
         </motion.div>
+        {commitment && (
+          <div className="mt-3 text-xs opacity-70 font-mono" title={commitment}>
+            Server seed committed: {commitment.slice(0, 16)}…
+          </div>
+        )}
       </div>
     </div>
   );
 }
 
-function Confetti() {
+const LOBBY_BET_FILTERS = [null, 5, 25, 100] as const;
+
+/** Live list of public rooms. Quick join takes a free seat in the first room that passes the filters. */
+function LobbyBrowser({ rooms, onJoin, onWatch }: {
+  rooms: RoomSummary[];
+  onJoin: (room: RoomSummary) => void;
+  onWatch: (code: string) => void;
+}) {
+  const [maxMinBet, setMaxMinBet] = useState<number | null>(null);
+  const [fullPayout, setFullPayout] = useState(false);
+
+  const matching = rooms.filter(r =>
+    (maxMinBet === null || r.rules.minBet <= maxMinBet) && (!fullPayout || r.rules.blackjackPayout === "3:2")
+  );
+  // Tables between rounds go first: a seat there plays the very next hand.
+  const quickJoin = matching
+    .filter(r => r.players < r.rules.maxSeats && !r.hasPassword)
+    .sort((a, b) => Number(b.phase === "LOBBY") - Number(a.phase === "LOBBY"))[0];
+
   return (
-    <div className="fixed inset-0 pointer-events-none z-50">
-      {[...Array(50)].map((_, i) => (
-        <motion.div
-          key={i}
-          className="absolute w-2 h-2 bg-yellow-400 rounded-full"
-          initial={{ x: "50vw", y: "50vh", opacity: 1 }}
-          animate={{
-            x: Math.random() * (typeof window !== 'undefined' ? window.innerWidth : 1000),
-            y: (typeof window !== 'undefined' ? window.innerHeight : 1000) + 100,
-            opacity: 0,
-            rotate: Math.random() * 360
-          }}
+    <div className="bg-black/20 rounded-xl p-3 space-y-2">
+      <div className="flex justify-between items-center">
+        <h3 className="font-bold">🌐 Public Rooms <span className="opacity-60 font-normal">({rooms.length})</span></h3>
+        <button
+          onClick={() => quickJoin && onJoin(quickJoin)}
+          disabled={!quickJoin}
+          className="text-sm bg-yellow-600 hover:bg-yellow-700 disabled:bg-gray-600 disabled:cursor-not-allowed px-3 py-1 rounded-lg font-semibold transition"
+        >
+          ⚡ Quick Join
+        </button>
+      </div>
+
+      <div className="flex gap-2 text-xs">
+        <select
+          value={maxMinBet ?? ""}
+          onChange={(e) => setMaxMinBet(e.target.value ? Number(e.target.value) : null)}
+          className="bg-green-900/60 rounded px-2 py-1"
+        >
+          {LOBBY_BET_FILTERS.map(v => (
+            <option key={v ?? "any"} value={v ?? ""}>{v === null ? "Any minimum" : `Minimum ≤ $${v}`}</option>
+          ))}
+        </select>
+        <label className="flex items-center gap-1 cursor-pointer">
+          <input type="checkbox" checked={fullPayout} onChange={(e) => setFullPayout(e.target.checked)} />
+          3:2 only
+        </label>
+      </div>
+
+      <div className="max-h-48 overflow-y-auto space-y-1">
+        {matching.length === 0 ? (
+          <div className="text-center text-sm opacity-50 py-2">
+            {rooms.length === 0 ? "No public rooms right now" : "No rooms match the filters"}
+          </div>
+        ) : (
+          matching.map(room => {
+            const full = room.players >= room.rules.maxSeats;
+            return (
+              <div key={room.code} className="bg-green-900/40 rounded-lg p-2 text-sm">
+                <div className="flex items-center gap-2">
+                  <span className="font-mono font-bold">{room.code}</span>
+                  {room.hasPassword && <span title="Password protected">🔑</span>}
+                  <span className="opacity-70">{room.players}/{room.rules.maxSeats}</span>
+                  {room.spectators > 0 && <span className="opacity-50">👀 {room.spectators}</span>}
+                  <span className="text-xs bg-black/30 rounded px-1">{room.phase}</span>
+                  <div className="flex-1" />
+                  <button
+                    onClick={() => onJoin(room)}
+                    disabled={full}
+                    className="bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed px-2 py-0.5 rounded font-semibold transition"
+                  >
+                    {full ? "Full" : "Join"}
+                  </button>
+                  <button
+                    onClick={() => onWatch(room.code)}
+                    title="Watch"
+                    className="bg-gray-700 hover:bg-gray-600 px-2 py-0.5 rounded transition"
+                  >
+                    👀
+                  </button>
+                </div>
+                <div className="text-xs opacity-60 mt-1">{describeRules(room.rules)}</div>
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
+
+/** Shown while the socket is down; counts down to the next backoff attempt. */
+function ReconnectOverlay({ retryAt, queued, onRetry }: { retryAt: number | null; queued: number; onRetry: () => void }) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, []);
+
+  const secondsLeft = retryAt ? Math.max(0, Math.ceil((retryAt - now) / 1000)) : 0;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/70 flex items-center justify-center z-50"
+    >
+      <div className="bg-green-800 rounded-2xl p-8 text-center space-y-2">
+        <div className="text-4xl mb-4">🔄</div>
+        <div className="text-xl font-bold">Reconnecting...</div>
+        <div className="text-sm opacity-80">
+          {secondsLeft > 0 ? `Next attempt in ${secondsLeft}s` : "Trying now..."}
+        </div>
+        {queued > 0 && (
+          <div className="text-sm text-yellow-400">
+            {queued} action{queued > 1 ? "s" : ""} will be sent when you're back
+          </div>
+        )}
+        <button
+          onClick={onRetry}
+          disabled={secondsLeft === 0}
+          className="mt-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed px-6 py-2 rounded-lg font-bold transition"
+        >
+          Retry now
+        </button>
+      </div>
+    </motion.div>
+  );
+}
+
+const NOTICE_STYLES: Record<Severity, { icon: typeof Info; className: string }> = {
+  info: { icon: Info, className: "bg-blue-900/90 border-blue-400 text-blue-100" },
+  success: { icon: CheckCircle2, className: "bg-green-900/90 border-green-400 text-green-100" },
+  warning: { icon: AlertTriangle, className: "bg-yellow-900/90 border-yellow-400 text-yellow-100" },
+  error: { icon: XCircle, className: "bg-red-900/90 border-red-400 text-red-100" },
+};
+
+function ToastStack({ notices, onDismiss }: { notices: Notice[]; onDismiss: (id: number) => void }) {
+  return (
+    <div className="fixed bottom-4 right-4 z-[60] flex flex-col gap-2 w-80 pointer-events-none">
+      <AnimatePresence initial={false}>
+        {notices.map(notice => {
+          const { icon: Icon, className } = NOTICE_STYLES[notice.severity];
+          return (
+            <motion.div
+              key={notice.id}
+              layout
+              initial={{ opacity: 0, x: 60 }}
+              animate={{ opacity: 1, x: 0 }}
+              exit={{ opacity: 0, x: 60 }}
+              role={notice.severity === "error" ? "alert" : "status"}
+              className={`pointer-events-auto flex items-start gap-2 rounded-lg border-l-4 px-3 py-2 shadow-2xl backdrop-blur ${className}`}
+            >
+              <Icon size={18} className="shrink-0 mt-0.5" />
+              <div className="flex-1 text-sm">{notice.message}</div>
+              <button onClick={() => onDismiss(notice.id)} className="opacity-60 hover:opacity-100 transition">
+                <X size={16} />
+              </button>
+            </motion.div>
+          );
+        })}
+      </AnimatePresence>
+    </div>
+  );
+}
+
+/** Repeats the latest notice about `target` next to that control while its toast is up. */
+function InlineNotice({ notices, target }: { notices: Notice[]; target: NoticeTarget }) {
+  const notice = notices.filter(n => n.target === target).at(-1);
+  if (!notice) return null;
+  const { icon: Icon, className } = NOTICE_STYLES[notice.severity];
+  return (
+    <motion.div
+      key={notice.id}
+      initial={{ opacity: 0, y: -4 }}
+      animate={{ opacity: 1, y: 0 }}
+      className={`flex items-center justify-center gap-2 rounded-lg border px-3 py-1 text-sm ${className}`}
+    >
+      <Icon size={14} className="shrink-0" />
+      {notice.message}
+    </motion.div>
+  );
+}
+
+function Confetti() {
+  return (
+    <div className="fixed inset-0 pointer-events-none z-50">
+      {[...Array(50)].map((_, i) => (
+        <motion.div
+          key={i}
+          className="absolute w-2 h-2 bg-yellow-400 rounded-full"
+          initial={{ x: "50vw", y: "50vh", opacity: 1 }}
+          animate={{
+            x: Math.random() * (typeof window !== 'undefined' ? window.innerWidth : 1000),
+            y: (typeof window !== 'undefined' ? window.innerHeight : 1000) + 100,
+            opacity: 0,
+            rotate: Math.random() * 360
+          }}
           transition={{ duration: 2, delay: Math.random() * 0.5 }}
         />
       ))}
@@ -406,53 +1620,38 @@ function CardComponent({
   );
 }
 
+/** Counts down to the table's `turnDeadline`; the table acts on its own when it runs out. */
 function TurnTimer({ 
-  isActive, 
-  currentPlayer, 
+  deadline, 
   duration = 20,
+  clockOffset,
   sounds
 }: { 
-  isActive: boolean; 
-  currentPlayer: string | null; 
+  deadline: number | null; 
   duration?: number;
+  /** Server clock minus ours. */
+  clockOffset: number;
   sounds: any;
 }) {
-  const [timeLeft, setTimeLeft] = useState(duration);
-  const intervalRef = useRef<number | null>(null);
+  const secondsLeft = () => deadline === null ? 0 : Math.max(0, Math.ceil((deadline - Date.now() - clockOffset) / 1000));
+  const [timeLeft, setTimeLeft] = useState(secondsLeft);
 
   useEffect(() => {
-    if (intervalRef.current) {
-      clearInterval(intervalRef.current);
-      intervalRef.current = null;
-    }
+    setTimeLeft(secondsLeft());
+    if (deadline === null) return;
 
-    setTimeLeft(duration);
-    if (!isActive || !currentPlayer) return;
-
-    intervalRef.current = window.setInterval(() => {
-      setTimeLeft((t) => {
-        const newTime = t - 1;
-        if (newTime <= 5 && newTime > 0) sounds.tick();
-        if (newTime <= 0) {
-          if (intervalRef.current) {
-            clearInterval(intervalRef.current);
-            intervalRef.current = null;
-          }
-          return 0;
-        }
-        return newTime;
+    const interval = window.setInterval(() => {
+      const left = secondsLeft();
+      setTimeLeft(prev => {
+        if (left !== prev && left <= 5 && left > 0) sounds.tick();
+        return left;
       });
-    }, 1000);
-
-    return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-        intervalRef.current = null;
-      }
-    };
-  }, [isActive, currentPlayer, duration]);
+      if (left === 0) clearInterval(interval);
+    }, 250);
+    return () => clearInterval(interval);
+  }, [deadline, clockOffset]);
 
-  if (!isActive || !currentPlayer) return null;
+  if (deadline === null) return null;
 
   const percentage = (timeLeft / duration) * 100;
   const isLow = timeLeft <= 5;
@@ -473,10 +1672,163 @@ function TurnTimer({
   );
 }
 
+function BetStack({ amount }: { amount: number }) {
+  return (
+    <motion.div
+      initial={{ scale: 0 }}
+      animate={{ scale: 1 }}
+      className="relative mx-auto w-24 h-24"
+    >
+      <div className="absolute inset-0 flex flex-col items-center justify-center">
+        {[...Array(Math.min(5, Math.floor(amount / 100) + 1))].map((_, i) => (
+          <motion.div
+            key={i}
+            initial={{ y: 20, opacity: 0 }}
+            animate={{ y: -i * 4, opacity: 1 }}
+            transition={{ delay: i * 0.05 }}
+            className="absolute w-20 h-6 rounded-full bg-gradient-to-br from-red-500 to-red-700 border-4 border-white/30 shadow-lg"
+            style={{ bottom: `${i * 4}px` }}
+          />
+        ))}
+        <div className="absolute inset-0 flex flex-col items-center justify-center z-10 pointer-events-none">
+          <div className="text-xs font-bold text-white drop-shadow-lg">BET</div>
+          <div className="text-xl font-bold text-white drop-shadow-lg">${amount}</div>
+        </div>
+      </div>
+    </motion.div>
+  );
+}
+
+/** One chip circle per side bet, with the outcome once it has been settled. */
+function SideBetChips({ sideBets }: { sideBets: Player["sideBets"] }) {
+  const placed = SIDE_BET_KINDS.flatMap(kind => {
+    const side = sideBets[kind];
+    return side ? [{ kind, side }] : [];
+  });
+  if (placed.length === 0) return null;
+
+  return (
+    <div className="flex justify-center gap-3 mt-2">
+      {placed.map(({ kind, side }) => {
+        const settled = side.outcome !== undefined;
+        return (
+          <div key={kind} className="flex flex-col items-center gap-1">
+            <div className="text-[10px] uppercase tracking-wide opacity-70">{SIDE_BET_NAMES[kind]}</div>
+            <motion.div
+              initial={{ scale: 0 }}
+              animate={{ scale: 1 }}
+              className={`w-12 h-12 rounded-full border-4 border-white/30 flex items-center justify-center text-sm font-bold shadow-lg ${
+                settled && !side.outcome ? "bg-gray-600/70" : "bg-gradient-to-br from-purple-500 to-purple-700"
+              }`}
+            >
+              ${side.stake}
+            </motion.div>
+            {settled && (
+              <div className={`px-2 py-0.5 rounded-full text-[10px] font-bold ${side.outcome ? "bg-green-500/80" : "bg-red-500/60"}`}>
+                {side.outcome ? `${side.outcome} +$${side.win}` : "Lost"}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+/** The insurance stake, kept apart from the main bet, and how it went once the dealer has peeked. */
+function InsuranceChip({ stake, result }: { stake: number; result?: Player["insuranceResult"] }) {
+  return (
+    <div className="flex flex-col items-center gap-1 mt-2">
+      <div className="text-[10px] uppercase tracking-wide opacity-70">Insurance</div>
+      <motion.div
+        initial={{ scale: 0 }}
+        animate={{ scale: 1 }}
+        className={`w-12 h-12 rounded-full border-4 border-white/30 flex items-center justify-center text-sm font-bold shadow-lg ${
+          result === "LOSE" ? "bg-gray-600/70" : "bg-gradient-to-br from-yellow-500 to-yellow-700"
+        }`}
+      >
+        ${stake}
+      </motion.div>
+      {result && (
+        <div className={`px-2 py-0.5 rounded-full text-[10px] font-bold ${result === "WIN" ? "bg-green-500/80" : "bg-red-500/60"}`}>
+          {result === "WIN" ? `Pays +$${stake * 2}` : `Lost -$${stake}`}
+        </div>
+      )}
+    </div>
+  );
+}
+
+const resultBadgeClass = (result?: HandResult) =>
+  result === "WIN" || result === "BLACKJACK"
+    ? "bg-green-500/80 text-white"
+    : result === "LOSE" || result === "BUST"
+    ? "bg-red-500/80 text-white"
+    : result === "SURRENDER"
+    ? "bg-orange-500/80 text-white"
+    : "bg-blue-500/80 text-white";
+
+function HandView({
+  hand,
+  isActive,
+  highlight,
+  toDiscard,
+  muted
+}: {
+  hand: Hand;
+  isActive: boolean;
+  highlight: boolean;
+  toDiscard: boolean;
+  muted: boolean;
+}) {
+  const handValue = calculateValue(hand.cards);
+  const isBust = handValue > 21;
+
+  return (
+    <motion.div
+      animate={isBust ? { x: [-5, 5, -5, 5, 0] } : {}}
+      transition={{ duration: 0.3 }}
+      className={`flex-1 rounded-xl p-2 ${highlight && isActive ? "ring-2 ring-yellow-300 bg-black/20" : ""}`}
+    >
+      <div className="flex justify-center gap-2 mb-3 min-h-[7rem]">
+        {hand.cards.map((card) => (
+          <CardComponent 
+            key={card.id} 
+            card={card} 
+            playSound={true} 
+            fromShoe={true}
+            toDiscard={toDiscard}
+            muted={muted}
+          />
+        ))}
+      </div>
+
+      {hand.cards.length > 0 && !toDiscard && (
+        <div className={`text-center font-bold text-lg mb-2 ${isBust ? "text-red-400" : ""}`}>
+          {handValue} {isBust && "BUST!"}
+        </div>
+      )}
+
+      {hand.bet > 0 && <BetStack amount={hand.bet} />}
+
+      {hand.status && !toDiscard && (
+        <motion.div 
+          initial={{ opacity: 0, scale: 0.8 }}
+          animate={{ opacity: 1, scale: 1 }}
+          className={`text-center mt-2 px-3 py-1 rounded-full text-sm font-bold ${resultBadgeClass(hand.result)}`}
+        >
+          {hand.status}
+        </motion.div>
+      )}
+    </motion.div>
+  );
+}
+
 function PlayerSpot({ 
   player, 
   isActive, 
+  activeHand,
   isMe, 
+  isHost = false,
   showWin,
   sounds,
   toDiscard = false,
@@ -484,21 +1836,24 @@ function PlayerSpot({
 }: { 
   player: Player; 
   isActive: boolean; 
+  activeHand: number;
   isMe: boolean; 
+  isHost?: boolean;
   showWin: boolean;
   sounds: any;
   toDiscard?: boolean;
   muted?: boolean;
 }) {
-  const handValue = calculateValue(player.cards);
-  const isBust = handValue > 21;
-  const isWin = player.result === "WIN" || player.result === "BLACKJACK";
+  const results = player.hands.map(h => h.result);
+  const hasBlackjack = results.includes("BLACKJACK");
+  const isWin = hasBlackjack || results.includes("WIN");
+  const isSplit = player.hands.length > 1;
 
   useEffect(() => {
     if (showWin && isWin) {
-      if (player.result === "BLACKJACK") sounds.blackjack();
+      if (hasBlackjack) sounds.blackjack();
       else sounds.win();
-    } else if (showWin && player.result === "LOSE") {
+    } else if (showWin && results.includes("LOSE")) {
       sounds.lose();
     }
   }, [showWin]);
@@ -506,75 +1861,51 @@ function PlayerSpot({
   return (
     <div className={`relative ${isActive ? "ring-4 ring-yellow-400 ring-offset-4 ring-offset-green-900" : ""} rounded-2xl`}>
       <motion.div
-        animate={isActive ? { scale: [1, 1.02, 1] } : isBust ? { x: [-5, 5, -5, 5, 0] } : {}}
-        transition={{ repeat: isActive ? Infinity : 0, duration: isActive ? 1.5 : 0.3 }}
+        animate={isActive ? { scale: [1, 1.02, 1] } : {}}
+        transition={{ repeat: isActive ? Infinity : 0, duration: 1.5 }}
         className={`bg-green-800/80 backdrop-blur-xl rounded-2xl p-4 shadow-2xl ${isMe ? "border-2 border-yellow-400" : ""} ${
           showWin && isWin ? "ring-4 ring-green-400 shadow-green-500/50" : ""
         }`}
       >
         <div className="text-center mb-3 bg-black/30 rounded-lg p-2">
-          <div className="font-bold text-xl text-yellow-400">{player.name}</div>
+          <div className="font-bold text-xl text-yellow-400 flex items-center justify-center gap-1">
+            {isHost && <Crown size={18} className="text-yellow-300" aria-label="Host" />}
+            {player.name}
+          </div>
           <div className="flex items-center justify-center gap-2 mt-1">
             <span className="text-xs opacity-70">Bank:</span>
             <span className="text-lg font-bold text-green-400">${player.stack}</span>
           </div>
         </div>
 
-        <div className="flex justify-center gap-2 mb-3 min-h-[7rem]">
-          {player.cards.map((card) => (
-            <CardComponent 
-              key={card.id} 
-              card={card} 
-              playSound={true} 
-              fromShoe={true}
-              toDiscard={toDiscard}
-              muted={muted}
-            />
-          ))}
-        </div>
-
-        {player.cards.length > 0 && !toDiscard && (
-          <div className={`text-center font-bold text-lg mb-2 ${isBust ? "text-red-400" : ""}`}>
-            {handValue} {isBust && "BUST!"}
+        {player.hands.length > 0 ? (
+          <div className={`flex justify-center gap-2 ${isSplit ? "flex-wrap" : ""}`}>
+            {player.hands.map((hand, idx) => (
+              <HandView
+                key={idx}
+                hand={hand}
+                isActive={isActive && idx === activeHand}
+                highlight={isSplit}
+                toDiscard={toDiscard}
+                muted={muted}
+              />
+            ))}
           </div>
+        ) : (
+          <>
+            <div className="min-h-[7rem] mb-3" />
+            {player.bet > 0 && <BetStack amount={player.bet} />}
+          </>
         )}
 
-        {player.bet > 0 && (
-          <motion.div
-            initial={{ scale: 0 }}
-            animate={{ scale: 1 }}
-            className="relative mx-auto w-24 h-24"
-          >
-            <div className="absolute inset-0 flex flex-col items-center justify-center">
-              {[...Array(Math.min(5, Math.floor(player.bet / 100) + 1))].map((_, i) => (
-                <motion.div
-                  key={i}
-                  initial={{ y: 20, opacity: 0 }}
-                  animate={{ y: -i * 4, opacity: 1 }}
-                  transition={{ delay: i * 0.05 }}
-                  className="absolute w-20 h-6 rounded-full bg-gradient-to-br from-red-500 to-red-700 border-4 border-white/30 shadow-lg"
-                  style={{ bottom: `${i * 4}px` }}
-                />
-              ))}
-              <div className="absolute inset-0 flex flex-col items-center justify-center z-10 pointer-events-none">
-                <div className="text-xs font-bold text-white drop-shadow-lg">BET</div>
-                <div className="text-xl font-bold text-white drop-shadow-lg">${player.bet}</div>
-              </div>
-            </div>
-          </motion.div>
-        )}
+        <SideBetChips sideBets={player.sideBets} />
+        {!!player.insuranceBet && <InsuranceChip stake={player.insuranceBet} result={player.insuranceResult} />}
 
         {player.status && !toDiscard && (
           <motion.div 
             initial={{ opacity: 0, scale: 0.8 }}
             animate={{ opacity: 1, scale: 1 }}
-            className={`text-center mt-2 px-3 py-1 rounded-full text-sm font-bold ${
-              player.result === "WIN" || player.result === "BLACKJACK" 
-                ? "bg-green-500/80 text-white" 
-                : player.result === "LOSE" || player.result === "BUST"
-                ? "bg-red-500/80 text-white"
-                : "bg-blue-500/80 text-white"
-            }`}
+            className="text-center mt-2 px-3 py-1 rounded-full text-sm font-bold bg-blue-500/80 text-white"
           >
             {player.status}
           </motion.div>
@@ -590,19 +1921,134 @@ function PlayerSpot({
           </motion.div>
         )}
 
-        {showWin && player.result === "BLACKJACK" && <Confetti />}
+        {showWin && hasBlackjack && <Confetti />}
       </motion.div>
     </div>
   );
 }
 
+type Send = <T extends OutgoingType>(type: T, payload?: OutgoingPayload<T>) => void;
+
+/** Moderation for the room host: lock, password, seat order, kicks and handing the role on. */
+function HostControls({ state, playerId, notices, send }: {
+  state: GameState;
+  playerId: string;
+  notices: Notice[];
+  send: Send;
+}) {
+  const [password, setPassword] = useState("");
+  const canMoveSeats = state.phase === "LOBBY";
+
+  const handleSetPassword = () => {
+    send("setPassword", { password: password.trim() || null });
+    setPassword("");
+  };
+
+  return (
+    <div className="bg-green-800/70 backdrop-blur-xl rounded-xl p-4 shadow-2xl border border-yellow-500/40 space-y-4">
+      <h3 className="font-bold text-lg flex items-center gap-2">
+        <Crown size={20} className="text-yellow-400" />
+        <span>Host Controls</span>
+      </h3>
+
+      <button
+        onClick={() => send("lock", { locked: !state.locked })}
+        className={`w-full flex items-center justify-center gap-2 px-3 py-2 rounded-lg font-semibold transition ${
+          state.locked ? "bg-red-700 hover:bg-red-800" : "bg-gray-700 hover:bg-gray-600"
+        }`}
+      >
+        {state.locked ? <Lock size={16} /> : <LockOpen size={16} />}
+        {state.locked ? "Room locked" : "Room open"}
+      </button>
+
+      <div className="space-y-2">
+        <div className="text-sm opacity-80">
+          Password: {state.hasPassword ? "set" : "none"}
+        </div>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="New password"
+            maxLength={20}
+            className="flex-1 min-w-0 px-3 py-1 rounded-lg bg-green-900/50 border border-green-700/50 text-white placeholder-gray-400"
+          />
+          <button
+            onClick={handleSetPassword}
+            disabled={!password.trim()}
+            className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed px-3 py-1 rounded-lg text-sm font-semibold transition"
+          >
+            Set
+          </button>
+          {state.hasPassword && (
+            <button
+              onClick={() => send("setPassword", { password: null })}
+              className="bg-gray-700 hover:bg-gray-600 px-3 py-1 rounded-lg text-sm font-semibold transition"
+            >
+              Clear
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <div className="text-sm opacity-80">Seats{!canMoveSeats && " (reorder between rounds)"}</div>
+        {state.players.map((player, idx) => (
+          <div key={player.id} className="flex items-center gap-1 bg-black/20 rounded-lg px-2 py-1 text-sm">
+            <span className="w-5 opacity-60">{idx + 1}</span>
+            <span className="flex-1 truncate">{player.name}</span>
+            <button
+              onClick={() => send("moveSeat", { targetId: player.id, seat: idx - 1 })}
+              disabled={!canMoveSeats || idx === 0}
+              title="Move up"
+              className="p-1 rounded hover:bg-white/10 disabled:opacity-30 disabled:cursor-not-allowed"
+            >
+              <ChevronUp size={14} />
+            </button>
+            <button
+              onClick={() => send("moveSeat", { targetId: player.id, seat: idx + 1 })}
+              disabled={!canMoveSeats || idx === state.players.length - 1}
+              title="Move down"
+              className="p-1 rounded hover:bg-white/10 disabled:opacity-30 disabled:cursor-not-allowed"
+            >
+              <ChevronDown size={14} />
+            </button>
+            {player.id !== playerId && (
+              <>
+                <button
+                  onClick={() => send("transferHost", { targetId: player.id })}
+                  title="Make host"
+                  className="p-1 rounded hover:bg-white/10"
+                >
+                  <Crown size={14} />
+                </button>
+                <button
+                  onClick={() => send("kick", { targetId: player.id })}
+                  title="Kick"
+                  className="p-1 rounded hover:bg-red-600/60"
+                >
+                  <UserX size={14} />
+                </button>
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <InlineNotice notices={notices} target="host" />
+    </div>
+  );
+}
+
 // ===================== NEUER CHAT =====================
 function ChatPanel({ 
   messages, 
   onSend 
 }: { 
   messages: ChatMessage[]; 
-  onSend: (msg: string) => void;
+  /** Left out for spectators, who can read along but not post. */
+  onSend?: (msg: string) => void;
 }) {
   const [input, setInput] = useState("");
   const messagesEndRef = useRef<HTMLDivElement>(null);
@@ -613,7 +2059,7 @@ function ChatPanel({
 
   const handleSend = () => {
     const trimmed = input.trim();
-    if (trimmed) {
+    if (trimmed && onSend) {
       onSend(trimmed);
       setInput("");
     }
@@ -664,61 +2110,1199 @@ function ChatPanel({
 
       {/* Input */}
       <div className="p-4 border-t border-green-700/50">
-        <div className="flex gap-2">
-          <input
-            type="text"
-            value={input}
-            onChange={(e) => setInput(e.target.value)}
-            onKeyPress={handleKeyPress}
-            placeholder="Type a message..."
-            maxLength={150}
-            className="flex-1 px-4 py-2 rounded-lg bg-green-900/50 border border-green-700/50 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-green-500 transition"
-          />
-          <button
-            onClick={handleSend}
-            disabled={!input.trim()}
-            className="px-4 py-2 bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed rounded-lg font-semibold transition flex items-center gap-2"
-          >
-            <Send size={18} />
-          </button>
+        {!onSend ? (
+          <div className="text-center text-sm opacity-60">👀 Spectators can read the chat</div>
+        ) : (
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              onKeyPress={handleKeyPress}
+              placeholder="Type a message..."
+              maxLength={150}
+              className="flex-1 px-4 py-2 rounded-lg bg-green-900/50 border border-green-700/50 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-green-500 transition"
+            />
+            <button
+              onClick={handleSend}
+              disabled={!input.trim()}
+              className="px-4 py-2 bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed rounded-lg font-semibold transition flex items-center gap-2"
+            >
+              <Send size={18} />
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+const CATEGORY_LABELS: Record<HandCategory, string> = { hard: "Hard totals", soft: "Soft totals", pair: "Pairs" };
+
+const percent = (part: number, total: number) => (total > 0 ? ((part / total) * 100).toFixed(1) : "0.0");
+
+const formatCount = (count: number) => (count > 0 ? `+${count}` : `${count}`);
+
+function AccuracyBar({ label, correct, total }: { label: string; correct: number; total: number }) {
+  return (
+    <div>
+      <div className="flex justify-between text-xs opacity-80 mb-1">
+        <span>{label}</span>
+        <span>{correct}/{total}</span>
+      </div>
+      <div className="w-full h-2 bg-gray-700 rounded-full overflow-hidden">
+        <div className="h-full bg-green-400" style={{ width: `${percent(correct, total)}%` }} />
+      </div>
+    </div>
+  );
+}
+
+const LEDGER_LABELS: Record<LedgerKind, string> = {
+  buyIn: "Buy-in",
+  rebuy: "Rebuy",
+  bet: "Bet",
+  sideBet: "Side bets",
+  double: "Double",
+  split: "Split",
+  insurance: "Insurance",
+  payout: "Payout",
+  push: "Push",
+  surrender: "Surrender refund",
+};
+
+/** Balance after every ledger entry, drawn as a line scaled to fit. */
+function BankrollGraph({ ledger }: { ledger: LedgerEntry[] }) {
+  const width = 240;
+  const height = 64;
+  const balances = ledger.map(e => e.balance);
+  const max = Math.max(...balances, 1);
+  const min = Math.min(...balances, 0);
+  const points = balances
+    .map((b, idx) => {
+      const x = balances.length > 1 ? (idx / (balances.length - 1)) * width : width / 2;
+      const y = height - ((b - min) / (max - min || 1)) * height;
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(" ");
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-16" preserveAspectRatio="none" role="img" aria-label="Bankroll over the session">
+      <polyline points={points} fill="none" stroke="currentColor" strokeWidth={2} vectorEffect="non-scaling-stroke" className="text-green-400" />
+    </svg>
+  );
+}
+
+/** Where the chips went this session: a running balance graph and the latest debits and credits. */
+function BankrollPanel({ ledger, stack, rebuys, rules }: { ledger: LedgerEntry[]; stack: number; rebuys: number; rules: TableRules }) {
+  const bought = ledger.filter(e => e.kind === "buyIn" || e.kind === "rebuy").reduce((sum, e) => sum + e.amount, 0);
+  const net = stack - bought;
+
+  return (
+    <div className="bg-green-800/70 backdrop-blur-xl rounded-xl shadow-2xl border border-green-700/50 p-4">
+      <h3 className="font-bold text-lg mb-3 flex items-center gap-2">
+        <Wallet size={20} className="text-green-400" />
+        <span>Bankroll</span>
+      </h3>
+      <div className="grid grid-cols-2 gap-4 mb-3">
+        <div className="bg-green-900/40 rounded-lg p-3 border border-green-700/30">
+          <div className="text-xs opacity-70 mb-1">Balance</div>
+          <div className="text-xl font-bold">${stack}</div>
+        </div>
+        <div className="bg-green-900/40 rounded-lg p-3 border border-green-700/30">
+          <div className="text-xs opacity-70 mb-1">Net</div>
+          <div className={`text-xl font-bold ${net >= 0 ? "text-green-400" : "text-red-400"}`}>
+            {net >= 0 ? "+" : "-"}${Math.abs(net)}
+          </div>
         </div>
       </div>
+      {ledger.length > 1 && <BankrollGraph ledger={ledger} />}
+      <div className="text-xs opacity-70 mt-1 mb-2">
+        Rebuys: {rebuys}/{rules.maxRebuys}
+      </div>
+      <div className="space-y-1 max-h-40 overflow-y-auto text-xs">
+        {ledger.slice(-10).reverse().map((entry, idx) => (
+          <div key={`${entry.at}-${idx}`} className="flex justify-between bg-green-900/30 rounded px-2 py-1">
+            <span>{LEDGER_LABELS[entry.kind]}</span>
+            <span className={entry.amount >= 0 ? "text-green-400" : "text-red-400"}>
+              {entry.amount >= 0 ? "+" : "-"}${Math.abs(entry.amount)}
+            </span>
+            <span className="opacity-70">${entry.balance}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function StatsPanel({ stats, strategy, counting, onShowDetails }: {
+  stats: Stats;
+  strategy: StrategyStats;
+  counting: CountStats;
+  onShowDetails: () => void;
+}) {
+  const winRate = stats.gamesPlayed > 0 ? ((stats.wins / stats.gamesPlayed) * 100).toFixed(1) : "0.0";
+  const categories = Object.entries(strategy.byCategory) as [HandCategory, { correct: number; total: number }][];
+  const decisions = categories.reduce((sum, [, c]) => sum + c.total, 0);
+  const correct = categories.reduce((sum, [, c]) => sum + c.correct, 0);
+  const sideBetNet = stats.sideBetsPaid - stats.sideBetsWagered;
+
+  return (
+    <div className="bg-green-800/70 backdrop-blur-xl rounded-xl shadow-2xl border border-green-700/50 p-4">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="font-bold text-lg flex items-center gap-2">
+          <TrendingUp size={20} className="text-green-400" />
+          <span>Statistics</span>
+        </h3>
+        <button
+          onClick={onShowDetails}
+          className="text-xs bg-green-700 hover:bg-green-600 px-2 py-1 rounded-lg transition flex items-center gap-1"
+        >
+          <BarChart3 size={14} /> Charts
+        </button>
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <div className="bg-green-900/40 rounded-lg p-3 border border-green-700/30">
+          <div className="text-xs opacity-70 mb-1">Win Rate</div>
+          <div className="text-2xl font-bold text-green-400">{winRate}%</div>
+        </div>
+        <div className="bg-green-900/40 rounded-lg p-3 border border-green-700/30">
+          <div className="text-xs opacity-70 mb-1">Games</div>
+          <div className="text-2xl font-bold">{stats.gamesPlayed}</div>
+        </div>
+        <div className="bg-green-900/40 rounded-lg p-3 border border-green-700/30">
+          <div className="text-xs opacity-70 mb-1">Blackjacks</div>
+          <div className="text-xl font-bold text-yellow-400">{stats.blackjacks}</div>
+        </div>
+        <div className="bg-green-900/40 rounded-lg p-3 border border-green-700/30">
+          <div className="text-xs opacity-70 mb-1">Best Streak</div>
+          <div className="text-xl font-bold text-blue-400">{stats.bestStreak}</div>
+        </div>
+        <div className="bg-green-900/40 rounded-lg p-3 border border-green-700/30">
+          <div className="text-xs opacity-70 mb-1">Surrenders</div>
+          <div className="text-xl font-bold text-orange-400">{stats.surrenders}</div>
+        </div>
+        <div className="bg-green-900/40 rounded-lg p-3 border border-green-700/30">
+          <div className="text-xs opacity-70 mb-1">Current Streak</div>
+          <div className="text-xl font-bold text-blue-400">{stats.currentStreak}</div>
+        </div>
+        <div className="bg-green-900/40 rounded-lg p-3 border border-green-700/30">
+          <div className="text-xs opacity-70 mb-1">Losses</div>
+          <div className="text-xl font-bold text-red-400">{stats.losses}</div>
+        </div>
+        <div className="bg-green-900/40 rounded-lg p-3 border border-green-700/30">
+          <div className="text-xs opacity-70 mb-1">Pushes</div>
+          <div className="text-xl font-bold">{stats.pushes}</div>
+        </div>
+      </div>
+
+      {stats.sideBetsPlaced > 0 && (
+        <div className="mt-4 pt-4 border-t border-green-700/50">
+          <div className="flex justify-between items-baseline mb-3">
+            <h4 className="font-semibold">🎲 Side Bets</h4>
+            <span className="text-sm opacity-70">
+              {stats.sideBetsWon} / {stats.sideBetsPlaced} won
+            </span>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="bg-green-900/40 rounded-lg p-3 border border-green-700/30">
+              <div className="text-xs opacity-70 mb-1">Wagered</div>
+              <div className="text-xl font-bold">${stats.sideBetsWagered}</div>
+            </div>
+            <div className="bg-green-900/40 rounded-lg p-3 border border-green-700/30">
+              <div className="text-xs opacity-70 mb-1">Net</div>
+              <div className={`text-xl font-bold ${sideBetNet >= 0 ? "text-green-400" : "text-red-400"}`}>
+                {sideBetNet >= 0 ? "+" : "-"}${Math.abs(sideBetNet)}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {decisions > 0 && (
+        <div className="mt-4 pt-4 border-t border-green-700/50">
+          <div className="flex justify-between items-baseline mb-3">
+            <h4 className="font-semibold">🎓 Strategy Accuracy</h4>
+            <span className="text-xl font-bold text-green-400">{percent(correct, decisions)}%</span>
+          </div>
+          <div className="space-y-2">
+            {categories.map(([category, c]) => (
+              <AccuracyBar key={category} label={CATEGORY_LABELS[category]} correct={c.correct} total={c.total} />
+            ))}
+          </div>
+          {strategy.recentMistakes.length > 0 && (
+            <div className="mt-3 space-y-1">
+              <div className="text-xs opacity-70">Recent deviations</div>
+              {strategy.recentMistakes.slice(0, 3).map((m) => (
+                <div key={m.timestamp} className="text-xs bg-red-900/30 rounded px-2 py-1">
+                  {m.situation}: you chose <b>{m.taken}</b>, book says <b>{m.correct}</b>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {counting.quizzes > 0 && (
+        <div className="mt-4 pt-4 border-t border-green-700/50">
+          <div className="flex justify-between items-baseline mb-3">
+            <h4 className="font-semibold">🧮 Count Trainer</h4>
+            <span className="text-sm opacity-70">{counting.quizzes} quizzes</span>
+          </div>
+          <div className="space-y-2">
+            <AccuracyBar label="Running count" correct={counting.runningCorrect} total={counting.quizzes} />
+            <AccuracyBar label="True count (±0.5)" correct={counting.trueCorrect} total={counting.quizzes} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface ProfileDialogProps {
+  account: ReturnType<typeof useProfileSync>;
+  notices: Notice[];
+  onClose: () => void;
+}
+
+/**
+ * Signs in to a server profile, and moves everything this browser remembers (settings, stats,
+ * bankroll, history) to or from a file.
+ */
+function ProfileDialog({ account, notices, onClose }: ProfileDialogProps) {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [username, setUsername] = useState("");
+  const [passphrase, setPassphrase] = useState("");
+
+  const handleSignIn = (create: boolean) => {
+    account.signIn(username, passphrase, create);
+    setPassphrase("");
+  };
+
+  const handleExport = async () => {
+    const stamp = new Date().toISOString().slice(0, 10);
+    downloadFile(`blackjack-profile-${stamp}.json`, await exportProfile(PROFILE_LOCAL, PROFILE_LARGE), "application/json");
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      await importProfile(await file.text(), PROFILE_LOCAL, PROFILE_LARGE);
+    } catch (err) {
+      if (!(err instanceof ProfileFileError)) throw err;
+      setError(err.message);
+      return;
+    }
+    // Everything reads its saved value once, at startup.
+    window.location.reload();
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.9 }}
+        animate={{ scale: 1 }}
+        className="bg-green-800 rounded-2xl p-6 w-full max-w-md space-y-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center">
+          <h2 className="text-2xl font-bold flex items-center gap-2">
+            <UserCog size={24} className="text-green-300" /> Profile
+          </h2>
+          <button onClick={onClose} className="p-1 hover:bg-white/10 rounded-lg transition">
+            <X size={20} />
+          </button>
+        </div>
+        <div className="space-y-2">
+          <h3 className="font-bold">🌐 Online Profile</h3>
+          {account.username ? (
+            <div className="flex items-center justify-between gap-2 bg-black/20 rounded-lg px-3 py-2">
+              <div className="text-sm">
+                Signed in as <span className="font-semibold">{account.username}</span>
+                <div className="text-xs opacity-70">{account.syncing ? "Syncing…" : account.ready ? "✓ In sync" : "Waiting for the server…"}</div>
+              </div>
+              <button onClick={account.signOut} className="text-sm bg-red-600 hover:bg-red-700 px-3 py-1 rounded-lg transition">
+                Sign out
+              </button>
+            </div>
+          ) : (
+            <>
+              <p className="text-sm opacity-80">
+                Keeps your stats, settings and practice bankroll the same on every device. The first time you sign in
+                here, this browser's games are added to the profile.
+              </p>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={username}
+                  onChange={(e) => setUsername(e.target.value)}
+                  placeholder="Username"
+                  autoComplete="username"
+                  maxLength={20}
+                  className="flex-1 min-w-0 px-3 py-1 rounded-lg bg-green-900/50 border border-green-700/50 text-white placeholder-gray-400"
+                />
+                <input
+                  type="password"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && handleSignIn(false)}
+                  placeholder="Passphrase"
+                  autoComplete="current-password"
+                  className="flex-1 min-w-0 px-3 py-1 rounded-lg bg-green-900/50 border border-green-700/50 text-white placeholder-gray-400"
+                />
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => handleSignIn(false)}
+                  disabled={!username.trim() || !passphrase}
+                  className="flex-1 text-sm bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed py-2 rounded-lg transition"
+                >
+                  Sign in
+                </button>
+                <button
+                  onClick={() => handleSignIn(true)}
+                  disabled={!username.trim() || !passphrase}
+                  className="flex-1 text-sm bg-green-700 hover:bg-green-600 disabled:bg-gray-600 disabled:cursor-not-allowed py-2 rounded-lg transition"
+                >
+                  Create profile
+                </button>
+              </div>
+            </>
+          )}
+          <InlineNotice notices={notices} target="profile" />
+        </div>
+        <h3 className="font-bold">📁 Profile File</h3>
+        <p className="text-sm opacity-80">
+          Your name, settings, stats, practice bankroll and hand history, in one file. Import it in another browser to
+          pick up where you left off; it replaces what that browser has.
+        </p>
+        <div className="flex gap-2">
+          <button
+            onClick={handleExport}
+            className="flex-1 flex items-center justify-center gap-1 text-sm bg-green-700 hover:bg-green-600 py-2 rounded-lg transition"
+          >
+            <Download size={14} /> Export
+          </button>
+          <button
+            onClick={() => fileRef.current?.click()}
+            className="flex-1 flex items-center justify-center gap-1 text-sm bg-blue-600 hover:bg-blue-700 py-2 rounded-lg transition"
+          >
+            <Upload size={14} /> Import
+          </button>
+          <input ref={fileRef} type="file" accept=".json,application/json" onChange={handleFile} className="hidden" />
+        </div>
+        {error && (
+          <div className="text-xs bg-red-900/60 border border-red-700 rounded-lg px-3 py-2">⚠️ Import failed: {error}</div>
+        )}
+      </motion.div>
+    </motion.div>
+  );
+}
+
+// ===================== Stats View =====================
+const netClass = (net: number) => (net >= 0 ? "text-green-400" : "text-red-400");
+const formatNet = (net: number) => `${net >= 0 ? "+" : "-"}$${Math.abs(net)}`;
+
+/** `yyyy-mm-dd` from a date input as local midnight, or the end of that day. */
+function dayBound(value: string, endOfDay: boolean): number | null {
+  if (!value) return null;
+  const [year, month, day] = value.split("-").map(Number);
+  return endOfDay ? new Date(year, month - 1, day, 23, 59, 59, 999).getTime() : new Date(year, month - 1, day).getTime();
+}
+
+/** Green for hands mostly won, red for hands mostly lost. */
+const cellColor = (cell: WinRateCell) => `hsl(${Math.round((cell.won / cell.hands) * 120)} 60% 35%)`;
+
+function WinRateChart({ stats }: { stats: HandStat[] }) {
+  const grid = winRateGrid(stats);
+  if (grid.rows.length === 0) return <div className="text-xs opacity-70">No hands yet.</div>;
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="text-xs border-separate border-spacing-0.5">
+        <thead>
+          <tr>
+            <th className="text-left pr-2 font-normal opacity-70">You \ Dealer</th>
+            {UPCARDS.map(rank => <th key={rank} className="w-9 font-semibold">{rank}</th>)}
+          </tr>
+        </thead>
+        <tbody>
+          {grid.rows.map(row => (
+            <tr key={row}>
+              <td className="pr-2 whitespace-nowrap opacity-80">{row}</td>
+              {UPCARDS.map(rank => {
+                const cell = grid.cells[row][rank];
+                return (
+                  <td
+                    key={rank}
+                    title={cell ? `${row} vs ${rank}: won ${cell.won} of ${cell.hands}` : undefined}
+                    style={cell ? { backgroundColor: cellColor(cell) } : undefined}
+                    className={`h-7 text-center rounded ${cell ? "" : "bg-black/20"}`}
+                  >
+                    {cell ? `${Math.round((cell.won / cell.hands) * 100)}` : ""}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="text-xs opacity-60 mt-1">Percent of hands won; hover a cell for the count.</div>
+    </div>
+  );
+}
+
+/** Running net, with a dashed line at break-even. */
+function ProfitChart({ stats }: { stats: HandStat[] }) {
+  const width = 480;
+  const height = 120;
+  const series = [0, ...profitSeries(stats)];
+  const max = Math.max(...series, 1);
+  const min = Math.min(...series, -1);
+  const y = (value: number) => height - ((value - min) / (max - min)) * height;
+  const points = series.map((value, idx) => `${((idx / (series.length - 1 || 1)) * width).toFixed(1)},${y(value).toFixed(1)}`).join(" ");
+  const last = series[series.length - 1];
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-32" preserveAspectRatio="none" role="img" aria-label="Net profit over time">
+        <line x1={0} x2={width} y1={y(0)} y2={y(0)} stroke="currentColor" strokeDasharray="4 4" vectorEffect="non-scaling-stroke" className="text-white/30" />
+        <polyline points={points} fill="none" stroke="currentColor" strokeWidth={2} vectorEffect="non-scaling-stroke" className={netClass(last)} />
+      </svg>
+      <div className="flex justify-between text-xs opacity-70">
+        <span>High {formatNet(max)}</span>
+        <span>Low {formatNet(min)}</span>
+      </div>
+    </div>
+  );
+}
+
+function ReturnByBetChart({ stats }: { stats: HandStat[] }) {
+  const rows = returnByBet(stats);
+  if (rows.length === 0) return <div className="text-xs opacity-70">No hands yet.</div>;
+  const widest = Math.max(...rows.map(r => Math.abs(r.net / r.wagered)), 0.01);
+
+  return (
+    <div className="space-y-1">
+      {rows.map(row => {
+        const ratio = row.net / row.wagered;
+        return (
+          <div key={row.bet} className="flex items-center gap-2 text-xs">
+            <span className="w-14 text-right opacity-80">${row.bet}</span>
+            <div className="flex-1 flex h-4">
+              <div className="w-1/2 flex justify-end">
+                {ratio < 0 && <div className="h-full bg-red-500/80 rounded-l" style={{ width: `${(-ratio / widest) * 100}%` }} />}
+              </div>
+              <div className="w-1/2 border-l border-white/30">
+                {ratio > 0 && <div className="h-full bg-green-500/80 rounded-r" style={{ width: `${(ratio / widest) * 100}%` }} />}
+              </div>
+            </div>
+            <span className={`w-28 ${netClass(row.net)}`}>
+              {(ratio * 100).toFixed(1)}% · {row.hands} hands
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+/** Every hand played, charted, narrowed down by session and date. */
+function StatsView({ handStats, onClose }: { handStats: HandStat[]; onClose: () => void }) {
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+
+  const sessions = sessionsOf(handStats);
+  const shown = filterHandStats(handStats, { sessionId, from: dayBound(from, false), to: dayBound(to, true) });
+  const won = shown.filter(s => s.result === "WIN" || s.result === "BLACKJACK").length;
+  const net = shown.reduce((sum, s) => sum + s.net + (s.insurance ?? 0), 0);
+  const rates = successRates(shown);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.9 }}
+        animate={{ scale: 1 }}
+        className="bg-green-800 rounded-2xl p-6 w-full max-w-3xl max-h-[85vh] overflow-y-auto space-y-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center">
+          <h2 className="text-2xl font-bold flex items-center gap-2">
+            <BarChart3 size={24} className="text-green-300" /> Hand Stats
+          </h2>
+          <button onClick={onClose} className="p-1 hover:bg-white/10 rounded-lg transition">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap gap-3 items-end text-sm">
+          <label className="flex flex-col gap-1">
+            <span className="text-xs opacity-70">Session</span>
+            <select
+              value={sessionId ?? ""}
+              onChange={(e) => setSessionId(e.target.value || null)}
+              className="px-2 py-1 rounded-lg bg-green-900/60 border border-green-700/50 text-white"
+            >
+              <option value="">All sessions</option>
+              {sessions.map(s => (
+                <option key={s.id} value={s.id}>
+                  {s.code} · {new Date(s.startedAt).toLocaleString()} · {s.hands} hands
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-xs opacity-70">From</span>
+            <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="px-2 py-1 rounded-lg text-black" />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-xs opacity-70">To</span>
+            <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className="px-2 py-1 rounded-lg text-black" />
+          </label>
+          {(sessionId || from || to) && (
+            <button
+              onClick={() => { setSessionId(null); setFrom(""); setTo(""); }}
+              className="bg-gray-700 hover:bg-gray-600 px-3 py-1 rounded-lg transition"
+            >
+              Clear filters
+            </button>
+          )}
+        </div>
+
+        <div className="grid grid-cols-3 gap-4">
+          <div className="bg-green-900/40 rounded-lg p-3 border border-green-700/30">
+            <div className="text-xs opacity-70 mb-1">Hands</div>
+            <div className="text-xl font-bold">{shown.length}</div>
+          </div>
+          <div className="bg-green-900/40 rounded-lg p-3 border border-green-700/30">
+            <div className="text-xs opacity-70 mb-1">Win Rate</div>
+            <div className="text-xl font-bold text-green-400">{percent(won, shown.length)}%</div>
+          </div>
+          <div className="bg-green-900/40 rounded-lg p-3 border border-green-700/30">
+            <div className="text-xs opacity-70 mb-1">Net</div>
+            <div className={`text-xl font-bold ${netClass(net)}`}>{formatNet(net)}</div>
+          </div>
+        </div>
+
+        <section className="bg-black/20 rounded-lg p-3">
+          <h3 className="font-semibold text-sm mb-2">Net profit over time</h3>
+          <ProfitChart stats={shown} />
+        </section>
+
+        <section className="bg-black/20 rounded-lg p-3">
+          <h3 className="font-semibold text-sm mb-2">Win rate by starting hand and dealer upcard</h3>
+          <WinRateChart stats={shown} />
+        </section>
+
+        <section className="bg-black/20 rounded-lg p-3">
+          <h3 className="font-semibold text-sm mb-2">Return per bet size</h3>
+          <ReturnByBetChart stats={shown} />
+        </section>
+
+        <section className="bg-black/20 rounded-lg p-3 space-y-2">
+          <h3 className="font-semibold text-sm">Doubles and insurance</h3>
+          <AccuracyBar label="Doubled hands won" correct={rates.doubles.won} total={rates.doubles.total} />
+          <AccuracyBar label="Insurance paid" correct={rates.insurance.won} total={rates.insurance.total} />
+        </section>
+      </motion.div>
+    </motion.div>
+  );
+}
+
+/** Asks for the Hi-Lo counts between rounds, then shows how the answer compares. */
+function CountQuiz({ answer, onAnswer, onClose }: {
+  answer: CountAnswer;
+  onAnswer: (runningCorrect: boolean, trueCorrect: boolean) => void;
+  onClose: () => void;
+}) {
+  const [running, setRunning] = useState("");
+  const [trueGuess, setTrueGuess] = useState("");
+  const [result, setResult] = useState<{ running: boolean; true: boolean } | null>(null);
+
+  const submit = () => {
+    if (running.trim() === "" || trueGuess.trim() === "") return;
+    const runningCorrect = Number(running) === answer.runningCount;
+    const trueCorrect = Math.abs(Number(trueGuess) - answer.trueCount) <= 0.5;
+    setResult({ running: runningCorrect, true: trueCorrect });
+    onAnswer(runningCorrect, trueCorrect);
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4"
+    >
+      <motion.div
+        initial={{ scale: 0.9 }}
+        animate={{ scale: 1 }}
+        className="bg-green-800 rounded-2xl p-6 w-full max-w-sm space-y-4"
+      >
+        <h2 className="text-2xl font-bold">🧮 Count Check</h2>
+        <p className="text-sm opacity-80">What are the Hi-Lo counts since the last shuffle?</p>
+
+        <label className="flex items-center justify-between gap-2">
+          <span>Running count</span>
+          <input
+            type="number"
+            value={running}
+            onChange={(e) => setRunning(e.target.value)}
+            disabled={!!result}
+            autoFocus
+            className="w-24 px-2 py-1 rounded-lg text-black text-center font-mono"
+          />
+        </label>
+        <label className="flex items-center justify-between gap-2">
+          <span>True count</span>
+          <input
+            type="number"
+            step="0.5"
+            value={trueGuess}
+            onChange={(e) => setTrueGuess(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && !result && submit()}
+            disabled={!!result}
+            className="w-24 px-2 py-1 rounded-lg text-black text-center font-mono"
+          />
+        </label>
+
+        {result && (
+          <div className="text-sm space-y-1 bg-black/30 rounded-lg p-3">
+            <div>{result.running ? "✅" : "❌"} Running count was <b>{formatCount(answer.runningCount)}</b></div>
+            <div>{result.true ? "✅" : "❌"} True count was <b>{formatCount(answer.trueCount)}</b></div>
+          </div>
+        )}
+
+        <div className="flex gap-3">
+          {result ? (
+            <button onClick={onClose} className="flex-1 bg-blue-600 hover:bg-blue-700 py-2 rounded-lg font-bold">
+              Continue
+            </button>
+          ) : (
+            <>
+              <button onClick={submit} className="flex-1 bg-blue-600 hover:bg-blue-700 py-2 rounded-lg font-bold">
+                Check
+              </button>
+              <button onClick={onClose} className="bg-gray-600 hover:bg-gray-700 px-4 py-2 rounded-lg font-bold">
+                Skip
+              </button>
+            </>
+          )}
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
+
+/** What the recording player took home from a round: their hand results and the change to their stack. */
+function roundOutcome(round: RoundRecord) {
+  const last = round.frames[round.frames.length - 1];
+  const player = last.players.find(p => p.id === round.viewerId);
+  const seat = round.events.find(e => e.kind === "seat" && e.playerId === player?.id);
+  if (!player || seat?.kind !== "seat") return null;
+  return { results: player.hands.map(h => h.result), net: player.stack - seat.stack };
+}
+
+function HistoryDrawer({
+  rounds,
+  importError,
+  onReplay,
+  onImport,
+  onClear,
+  onClose
+}: {
+  rounds: RoundRecord[];
+  importError: string | null;
+  onReplay: (round: RoundRecord) => void;
+  onImport: (text: string) => void;
+  onClear: () => void;
+  onClose: () => void;
+}) {
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (file) onImport(await file.text());
+  };
+
+  return (
+    <motion.div
+      initial={{ x: "100%" }}
+      animate={{ x: 0 }}
+      exit={{ x: "100%" }}
+      transition={{ type: "spring", stiffness: 300, damping: 30 }}
+      className="fixed top-0 right-0 h-full w-96 max-w-full bg-green-900/95 backdrop-blur-xl shadow-2xl border-l border-green-700/50 z-40 flex flex-col"
+    >
+      <div className="flex justify-between items-center p-4 border-b border-green-700/50">
+        <h3 className="font-bold text-lg flex items-center gap-2">
+          <History size={20} className="text-green-400" />
+          <span>Hand History</span>
+        </h3>
+        <button onClick={onClose} className="p-1 hover:bg-white/10 rounded-lg transition">
+          <X size={20} />
+        </button>
+      </div>
+
+      <div className="flex gap-2 px-4 pt-4">
+        <button
+          onClick={() => fileRef.current?.click()}
+          className="flex-1 flex items-center justify-center gap-1 text-sm bg-blue-600 hover:bg-blue-700 py-2 rounded-lg transition"
+        >
+          <Upload size={14} /> Import
+        </button>
+        <button
+          onClick={() => exportRounds(rounds, "json")}
+          disabled={rounds.length === 0}
+          className="flex-1 flex items-center justify-center gap-1 text-sm bg-green-700 hover:bg-green-600 disabled:bg-gray-600 disabled:cursor-not-allowed py-2 rounded-lg transition"
+        >
+          <Download size={14} /> JSON
+        </button>
+        <button
+          onClick={() => exportRounds(rounds, "txt")}
+          disabled={rounds.length === 0}
+          className="flex-1 flex items-center justify-center gap-1 text-sm bg-green-700 hover:bg-green-600 disabled:bg-gray-600 disabled:cursor-not-allowed py-2 rounded-lg transition"
+        >
+          <Download size={14} /> Text
+        </button>
+        <input ref={fileRef} type="file" accept=".json,application/json" onChange={handleFile} className="hidden" />
+      </div>
+      {importError && (
+        <div className="mx-4 mt-2 text-xs bg-red-900/60 border border-red-700 rounded-lg px-3 py-2">
+          ⚠️ Import failed: {importError}
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-2">
+        {rounds.length === 0 && (
+          <div className="text-center text-sm opacity-50 mt-8">Finished rounds show up here</div>
+        )}
+        {rounds.map((round) => {
+          const outcome = roundOutcome(round);
+          const dealer = dealerTotal(round);
+          return (
+            <button
+              key={round.id}
+              onClick={() => onReplay(round)}
+              className="w-full text-left bg-green-800/60 hover:bg-green-700/60 rounded-lg p-3 border border-green-700/30 transition"
+            >
+              <div className="flex justify-between text-xs opacity-70">
+                <span>{new Date(round.startedAt).toLocaleString()}</span>
+                <span className="font-mono">{round.code}</span>
+              </div>
+              <div className="flex justify-between items-center mt-2">
+                <div className="flex gap-1 flex-wrap">
+                  {outcome?.results.map((result, idx) => (
+                    <span key={idx} className={`text-xs font-bold px-2 py-0.5 rounded-full ${resultBadgeClass(result)}`}>
+                      {result ?? "—"}
+                    </span>
+                  )) ?? <span className="text-xs opacity-60">Watched</span>}
+                </div>
+                {outcome && (
+                  <span className={`font-bold ${outcome.net > 0 ? "text-green-400" : outcome.net < 0 ? "text-red-400" : ""}`}>
+                    {outcome.net >= 0 ? "+" : "-"}${Math.abs(outcome.net)}
+                  </span>
+                )}
+              </div>
+              <div className="text-xs opacity-60 mt-1">
+                Dealer {dealer ?? "didn't show"} · {round.frames[round.frames.length - 1].players.length} seat(s)
+              </div>
+            </button>
+          );
+        })}
+      </div>
+
+      {rounds.length > 0 && (
+        <div className="p-4 border-t border-green-700/50">
+          <button onClick={onClear} className="w-full text-sm bg-red-700/70 hover:bg-red-700 py-2 rounded-lg transition">
+            Clear history
+          </button>
+        </div>
+      )}
+    </motion.div>
+  );
+}
+
+const REPLAY_STEP_MS = 900;
+
+/** Steps through a recorded round frame by frame with the same card and seat components as the live table. */
+function ReplayViewer({
+  round,
+  sounds,
+  muted,
+  onClose
+}: {
+  round: RoundRecord;
+  sounds: ReturnType<typeof useSounds>["sounds"];
+  muted: boolean;
+  onClose: () => void;
+}) {
+  const [frameIdx, setFrameIdx] = useState(0);
+  const [playing, setPlaying] = useState(true);
+  const lastFrame = round.frames.length - 1;
+  const frame = round.frames[frameIdx];
+  const revealed = isHoleCardRevealed(frame.phase);
+  const log = round.events.filter(e => e.frame <= frameIdx);
+
+  useEffect(() => {
+    if (!playing || frameIdx >= lastFrame) return;
+    const timer = setTimeout(() => setFrameIdx(i => Math.min(i + 1, lastFrame)), REPLAY_STEP_MS);
+    return () => clearTimeout(timer);
+  }, [playing, frameIdx, lastFrame]);
+
+  const step = (delta: number) => {
+    setPlaying(false);
+    setFrameIdx(i => Math.max(0, Math.min(i + delta, lastFrame)));
+  };
+
+  const togglePlay = () => {
+    if (frameIdx < lastFrame) {
+      setPlaying(p => !p);
+      return;
+    }
+    setFrameIdx(0);
+    setPlaying(true);
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.9 }}
+        animate={{ scale: 1 }}
+        className="bg-green-800 rounded-2xl p-6 w-full max-w-5xl max-h-[90vh] overflow-y-auto space-y-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center">
+          <h2 className="text-2xl font-bold">🎬 Replay · Room {round.code}</h2>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => exportRounds([round], "json")}
+              className="flex items-center gap-1 text-sm bg-green-700 hover:bg-green-600 px-3 py-1 rounded-lg transition"
+            >
+              <Download size={14} /> JSON
+            </button>
+            <button
+              onClick={() => navigator.clipboard.writeText(formatHandLog(round))}
+              className="text-sm bg-green-700 hover:bg-green-600 px-3 py-1 rounded-lg transition"
+            >
+              📋 Copy log
+            </button>
+            <button onClick={onClose} className="p-1 hover:bg-white/10 rounded-lg transition">
+              <X size={24} />
+            </button>
+          </div>
+        </div>
+
+        <div className="bg-green-900/60 rounded-xl p-4 text-center">
+          <h3 className="font-bold mb-2">
+            🎩 DEALER{revealed && frame.dealer.cards.length > 0 && <span className="ml-2">{calculateValue(frame.dealer.cards)}</span>}
+          </h3>
+          <div className="flex justify-center gap-2 flex-wrap min-h-[7rem] items-center">
+            {frame.dealer.cards.map((card, idx) => (
+              <CardComponent key={card.id} card={card} hidden={idx === 1 && !revealed} muted={muted} />
+            ))}
+          </div>
+        </div>
+
+        <div className={`grid gap-4 ${frame.players.length === 1 ? "grid-cols-1 max-w-md mx-auto" : "grid-cols-2 xl:grid-cols-3"}`}>
+          {frame.players.map((player, idx) => (
+            <PlayerSpot
+              key={player.id}
+              player={player}
+              isActive={frame.phase === "PLAYER" && frame.turnIdx === idx}
+              activeHand={frame.handIdx}
+              isMe={player.id === round.viewerId}
+              showWin={frame.phase === "RESULT"}
+              sounds={sounds}
+              muted={muted}
+            />
+          ))}
+        </div>
+
+        <div className="flex items-center justify-center gap-3">
+          <button onClick={() => step(-lastFrame)} className="bg-gray-700 hover:bg-gray-600 px-3 py-2 rounded-lg transition">⏮</button>
+          <button onClick={() => step(-1)} className="bg-gray-700 hover:bg-gray-600 px-3 py-2 rounded-lg transition">◀</button>
+          <button onClick={togglePlay} className="bg-blue-600 hover:bg-blue-700 px-6 py-2 rounded-lg font-bold transition">
+            {playing && frameIdx < lastFrame ? "⏸ Pause" : "▶ Play"}
+          </button>
+          <button onClick={() => step(1)} className="bg-gray-700 hover:bg-gray-600 px-3 py-2 rounded-lg transition">▶</button>
+          <button onClick={() => step(lastFrame)} className="bg-gray-700 hover:bg-gray-600 px-3 py-2 rounded-lg transition">⏭</button>
+          <span className="text-sm opacity-70 font-mono ml-2">{frameIdx + 1} / {lastFrame + 1} · {frame.phase}</span>
+        </div>
+        <input
+          type="range"
+          min={0}
+          max={lastFrame}
+          value={frameIdx}
+          onChange={(e) => { setPlaying(false); setFrameIdx(Number(e.target.value)); }}
+          className="w-full"
+        />
+
+        <div className="bg-black/30 rounded-lg p-3 max-h-40 overflow-y-auto text-sm font-mono space-y-0.5">
+          {log.map((event, idx) => (
+            <div key={idx} className={event.frame === frameIdx ? "text-yellow-400" : "opacity-70"}>
+              {describeEvent(round, event)}
+            </div>
+          ))}
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
+
+const shortHash = (hash: string) => `${hash.slice(0, 12)}…${hash.slice(-6)}`;
+
+function SeedRow({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="flex justify-between gap-2 text-xs">
+      <span className="opacity-70 shrink-0">{label}</span>
+      <span className="font-mono truncate" title={value}>{value.length > 24 ? shortHash(value) : value || "—"}</span>
+    </div>
+  );
+}
+
+function ShoeCheckResult({ check }: { check: ShoeCheck }) {
+  const line = (ok: boolean, text: string) => (
+    <div className={ok ? "text-green-300" : "text-red-300"}>{ok ? "✓" : "✗"} {text}</div>
+  );
+  return (
+    <div className="mt-2 text-xs space-y-0.5">
+      {line(check.commitmentOk, check.commitmentOk ? "Server seed matches its commitment" : "Server seed does NOT match its commitment")}
+      {line(check.mismatches.length === 0, `${check.checked - check.mismatches.length} of ${check.checked} dealt cards match the rebuilt shoe`)}
+      {check.mismatches.slice(0, 3).map(m => <div key={m} className="text-red-300 pl-4">{m}</div>)}
+      {line(check.inOrder, check.inOrder ? "Cards came out in order, none skipped" : "Cards were skipped or dealt out of order")}
+      {!check.fromStart && check.checked > 0 && <div className="opacity-70">You joined mid-shoe; cards before that weren't seen</div>}
     </div>
   );
 }
 
-function StatsPanel({ stats }: { stats: Stats }) {
-  const winRate = stats.gamesPlayed > 0 ? ((stats.wins / stats.gamesPlayed) * 100).toFixed(1) : "0.0";
+/**
+ * Commit-reveal details for the table, and a verifier that rebuilds each revealed shoe from its
+ * seeds and compares it with every card this client saw dealt.
+ */
+function FairnessPanel({ fairness, clientSeed, canSetSeed, seedPending, dealtFrom, onClientSeed, onClose }: {
+  fairness: Fairness;
+  clientSeed: string;
+  canSetSeed: boolean;
+  /** Our latest seed is waiting for the round in play to end before it can be sent. */
+  seedPending: boolean;
+  dealtFrom: (shoeNo: number) => Card[];
+  onClientSeed: (seed: string) => void;
+  onClose: () => void;
+}) {
+  const [draft, setDraft] = useState(clientSeed);
+  const [checks, setChecks] = useState<Record<number, ShoeCheck>>({});
+
+  const verify = (seeds: ShoeSeeds) => setChecks(prev => ({ ...prev, [seeds.shoeNo]: verifyShoe(seeds, dealtFrom(seeds.shoeNo)) }));
 
   return (
-    <div className="bg-green-800/70 backdrop-blur-xl rounded-xl shadow-2xl border border-green-700/50 p-4">
-      <h3 className="font-bold text-lg mb-4 flex items-center gap-2">
-        <TrendingUp size={20} className="text-green-400" />
-        <span>Statistics</span>
-      </h3>
-      <div className="grid grid-cols-2 gap-4">
-        <div className="bg-green-900/40 rounded-lg p-3 border border-green-700/30">
-          <div className="text-xs opacity-70 mb-1">Win Rate</div>
-          <div className="text-2xl font-bold text-green-400">{winRate}%</div>
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.9 }}
+        animate={{ scale: 1 }}
+        className="bg-green-800 rounded-2xl p-6 w-full max-w-lg max-h-[80vh] overflow-y-auto space-y-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center">
+          <h2 className="text-2xl font-bold flex items-center gap-2">
+            <ShieldCheck size={24} className="text-green-300" /> Provably Fair
+          </h2>
+          <button onClick={onClose} className="p-1 hover:bg-white/10 rounded-lg transition">
+            <X size={20} />
+          </button>
         </div>
-        <div className="bg-green-900/40 rounded-lg p-3 border border-green-700/30">
-          <div className="text-xs opacity-70 mb-1">Games</div>
-          <div className="text-2xl font-bold">{stats.gamesPlayed}</div>
+        <p className="text-sm opacity-80">
+          The server commits to a secret seed before each shoe by publishing its SHA-256. Your client seed is mixed in
+          when the shoe is shuffled, and the server seed is revealed when the shoe is finished so you can rebuild it.
+        </p>
+
+        <div className="bg-black/20 rounded-lg p-3 space-y-2">
+          <h3 className="font-semibold text-sm">Your client seed</h3>
+          <div className="flex gap-2">
+            <input
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              maxLength={64}
+              className="flex-1 px-3 py-1 rounded text-black font-mono text-sm"
+            />
+            <button
+              onClick={() => onClientSeed(draft)}
+              disabled={!draft.trim() || draft.trim() === clientSeed}
+              className="bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed px-3 py-1 rounded text-sm font-semibold transition"
+            >
+              Save
+            </button>
+          </div>
+          <div className="text-xs opacity-70">
+            {!canSetSeed
+              ? "Take a seat to add your seed to the shuffle."
+              : seedPending
+                ? "Sent to the table when this round ends. It takes effect at the next shuffle."
+                : "Takes effect at the next shuffle. The shoe in play keeps the seeds it was shuffled with."}
+          </div>
         </div>
-        <div className="bg-green-900/40 rounded-lg p-3 border border-green-700/30">
-          <div className="text-xs opacity-70 mb-1">Blackjacks</div>
-          <div className="text-xl font-bold text-yellow-400">{stats.blackjacks}</div>
+
+        <div className="bg-black/20 rounded-lg p-3 space-y-1">
+          <h3 className="font-semibold text-sm mb-1">
+            {fairness.current ? `Shoe #${fairness.current.shoeNo} (in play)` : "No shoe dealt yet"}
+          </h3>
+          {fairness.current && (
+            <>
+              <SeedRow label="Commitment" value={fairness.current.commitment} />
+              <SeedRow label="Client seeds" value={fairness.current.clientSeed} />
+            </>
+          )}
+          <SeedRow label="Next shoe commitment" value={fairness.nextCommitment} />
         </div>
-        <div className="bg-green-900/40 rounded-lg p-3 border border-green-700/30">
-          <div className="text-xs opacity-70 mb-1">Best Streak</div>
-          <div className="text-xl font-bold text-blue-400">{stats.bestStreak}</div>
+
+        <div className="space-y-2">
+          <h3 className="font-semibold text-sm">Revealed shoes</h3>
+          {fairness.revealed.length === 0 && (
+            <div className="text-xs opacity-70">A shoe's server seed shows up here once the shoe is finished.</div>
+          )}
+          {fairness.revealed.map(seeds => (
+            <div key={seeds.shoeNo} className="bg-black/20 rounded-lg p-3 space-y-1">
+              <div className="flex justify-between items-center">
+                <span className="font-semibold text-sm">Shoe #{seeds.shoeNo}</span>
+                <button
+                  onClick={() => verify(seeds)}
+                  className="bg-blue-600 hover:bg-blue-700 px-3 py-1 rounded text-xs font-semibold transition"
+                >
+                  Verify
+                </button>
+              </div>
+              <SeedRow label="Server seed" value={seeds.serverSeed ?? ""} />
+              <SeedRow label="Commitment" value={seeds.commitment} />
+              <SeedRow label="Client seeds" value={seeds.clientSeed} />
+              {checks[seeds.shoeNo] && <ShoeCheckResult check={checks[seeds.shoeNo]} />}
+            </div>
+          ))}
         </div>
+      </motion.div>
+    </motion.div>
+  );
+}
+
+function RuleSelect<T extends string | number | boolean>({
+  label,
+  value,
+  options,
+  onChange
+}: {
+  label: string;
+  value: T;
+  options: [T, string][];
+  onChange: (value: T) => void;
+}) {
+  return (
+    <label className="flex items-center justify-between gap-2 text-sm">
+      <span className="opacity-80">{label}</span>
+      <select
+        value={String(value)}
+        onChange={(e) => onChange(options.find(([v]) => String(v) === e.target.value)![0])}
+        className="px-2 py-1 rounded-lg bg-green-900/60 border border-green-700/50 text-white"
+      >
+        {options.map(([v, text]) => (
+          <option key={String(v)} value={String(v)}>{text}</option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+/** The name a pay table is listed under, "off" for `null`, "custom" for one that isn't listed. */
+const payTableName = <T extends object>(tables: Record<string, T>, table: T | null) =>
+  table === null ? "off" : Object.keys(tables).find(name => JSON.stringify(tables[name]) === JSON.stringify(table)) ?? "custom";
+
+function payTableOptions<T extends object>(tables: Record<string, T>, table: T | null): [string, string][] {
+  const options: [string, string][] = [["off", "Off"], ...Object.keys(tables).map(name => [name, name] as [string, string])];
+  return payTableName(tables, table) === "custom" ? [...options, ["custom", "Custom"]] : options;
+}
+
+function RulesPicker({ rules, onChange }: { rules: TableRules; onChange: (rules: TableRules) => void }) {
+  const set = <K extends keyof TableRules>(key: K) => (value: TableRules[K]) => onChange({ ...rules, [key]: value });
+  const setPayTable = <K extends "perfectPairs" | "twentyOnePlus3">(key: K, tables: Record<string, NonNullable<TableRules[K]>>) =>
+    (name: string) => {
+      if (name !== "custom") set(key)(name === "off" ? null : tables[name]);
+    };
+
+  return (
+    <details className="bg-green-900/40 rounded-lg p-3 border border-green-700/30">
+      <summary className="cursor-pointer font-semibold text-sm">⚙️ Table Rules</summary>
+      <div className="flex flex-wrap gap-2 mt-3">
+        {Object.entries(RULE_PRESETS).map(([presetName, preset]) => (
+          <button
+            key={presetName}
+            onClick={() => onChange(preset)}
+            className="text-xs bg-green-700 hover:bg-green-600 px-2 py-1 rounded-lg transition"
+          >
+            {presetName}
+          </button>
+        ))}
       </div>
-    </div>
+      <div className="space-y-2 mt-3">
+        <RuleSelect label="Decks" value={rules.decks} options={[[1, "1"], [2, "2"], [4, "4"], [6, "6"], [8, "8"]]} onChange={set("decks")} />
+        <RuleSelect label="Soft 17" value={rules.dealerHitsSoft17} options={[[false, "Dealer stands (S17)"], [true, "Dealer hits (H17)"]]} onChange={set("dealerHitsSoft17")} />
+        <RuleSelect label="Blackjack pays" value={rules.blackjackPayout} options={[["3:2", "3:2"], ["6:5", "6:5"]]} onChange={set("blackjackPayout")} />
+        <RuleSelect label="Double on" value={rules.doubleOn} options={[["any", "Any two cards"], ["9-11", "9 to 11"], ["10-11", "10 or 11"]]} onChange={set("doubleOn")} />
+        <RuleSelect label="Double after split" value={rules.doubleAfterSplit} options={[[true, "Yes"], [false, "No"]]} onChange={set("doubleAfterSplit")} />
+        <RuleSelect label="Max hands" value={rules.maxHands} options={[[1, "No splits"], [2, "2"], [3, "3"], [4, "4"]]} onChange={set("maxHands")} />
+        <RuleSelect label="Surrender" value={rules.surrender} options={[["none", "None"], ["late", "Late"], ["early", "Early"]]} onChange={set("surrender")} />
+        <RuleSelect label="Min bet" value={rules.minBet} options={[[5, "$5"], [25, "$25"], [100, "$100"]]} onChange={set("minBet")} />
+        <RuleSelect label="Max bet" value={rules.maxBet} options={[[500, "$500"], [1000, "$1000"], [5000, "$5000"], [10000, "$10000"]]} onChange={set("maxBet")} />
+        <RuleSelect label="Seats" value={rules.maxSeats} options={[1, 2, 3, 4, 5, 6, 7, 8].map(n => [n, String(n)] as [number, string])} onChange={set("maxSeats")} />
+        <RuleSelect label="Turn time" value={rules.turnSeconds} options={[[10, "10s"], [20, "20s"], [30, "30s"], [60, "60s"]]} onChange={set("turnSeconds")} />
+        <RuleSelect label="Sit out after" value={rules.idleTimeouts} options={[[1, "1 missed turn"], [2, "2 missed turns"], [3, "3 missed turns"], [5, "5 missed turns"]]} onChange={set("idleTimeouts")} />
+        <RuleSelect label="Buy-in" value={rules.buyIn} options={[[500, "$500"], [1000, "$1000"], [5000, "$5000"], [10000, "$10000"]]} onChange={set("buyIn")} />
+        <RuleSelect label="Rebuys" value={rules.maxRebuys} options={[[0, "None"], [1, "1"], [3, "3"], [5, "5"], [10, "10"]]} onChange={set("maxRebuys")} />
+        <RuleSelect
+          label="Perfect Pairs"
+          value={payTableName(PERFECT_PAIRS_TABLES, rules.perfectPairs)}
+          options={payTableOptions(PERFECT_PAIRS_TABLES, rules.perfectPairs)}
+          onChange={setPayTable("perfectPairs", PERFECT_PAIRS_TABLES)}
+        />
+        <RuleSelect
+          label="21+3"
+          value={payTableName(TWENTY_ONE_PLUS_3_TABLES, rules.twentyOnePlus3)}
+          options={payTableOptions(TWENTY_ONE_PLUS_3_TABLES, rules.twentyOnePlus3)}
+          onChange={setPayTable("twentyOnePlus3", TWENTY_ONE_PLUS_3_TABLES)}
+        />
+        <RuleSelect label="Side bet max" value={rules.sideBetMax} options={[[25, "$25"], [100, "$100"], [500, "$500"], [1000, "$1000"]]} onChange={set("sideBetMax")} />
+      </div>
+    </details>
   );
 }
 
-function HelpOverlay({ onClose }: { onClose: () => void }) {
+function HelpOverlay({ onClose, rules }: { onClose: () => void; rules: TableRules }) {
+  const blackjackMultiplier = rules.blackjackPayout === "6:5" ? "2.2x" : "2.5x";
+
   return (
     <motion.div
       initial={{ opacity: 0 }}
@@ -756,26 +3340,80 @@ function HelpOverlay({ onClose }: { onClose: () => void }) {
               <li><b>Hit:</b> Draw another card</li>
               <li><b>Stand:</b> Keep your current hand</li>
               <li><b>Double:</b> Double bet, get one card, then stand</li>
-              <li><b>Insurance:</b> Side bet when dealer shows Ace</li>
+              {rules.maxHands > 1 && (
+                <li><b>Split:</b> Turn a pair into two hands, each with its own bet equal to the first. 21 on a split hand pays like a normal win</li>
+              )}
+              {rules.surrender !== "none" && (
+                <li><b>Surrender:</b> Give up your first two cards and get half your bet back</li>
+              )}
+              <li><b>Insurance:</b> half your bet when the dealer shows an Ace, pays 2:1 if the dealer peeks a Blackjack</li>
+              <li><b>Even money:</b> holding a Blackjack against an Ace, take 1:1 straight away instead of risking a push</li>
             </ul>
           </section>
 
           <section>
             <h3 className="font-bold text-lg mb-2">💰 Payouts</h3>
             <ul className="list-disc list-inside space-y-1">
-              <li><b>Blackjack (21 with 2 cards):</b> 2.5x bet</li>
+              <li><b>Blackjack (21 with 2 cards):</b> pays {rules.blackjackPayout}, {blackjackMultiplier} bet returned</li>
               <li><b>Win:</b> 2x bet</li>
               <li><b>Push (tie):</b> Bet returned</li>
               <li><b>Lose:</b> Lose bet</li>
             </ul>
           </section>
 
+          <section>
+            <h3 className="font-bold text-lg mb-2">📜 Table Rules</h3>
+            <ul className="list-disc list-inside space-y-1">
+              <li>{rules.decks} deck{rules.decks > 1 ? "s" : ""}, dealer {rules.dealerHitsSoft17 ? "hits" : "stands on"} soft 17</li>
+              <li>Bets from ${rules.minBet} to ${rules.maxBet}, up to {rules.maxSeats} players</li>
+              <li>Double on {rules.doubleOn === "any" ? "any two cards" : rules.doubleOn}{rules.doubleAfterSplit ? ", also after a split" : ", not after a split"}</li>
+              {rules.maxHands > 1 ? (
+                <li>Split up to {rules.maxHands} hands{rules.splitAcesOneCard ? ", split aces get one card each" : ""}{rules.resplitAces ? ", aces may be re-split" : ""}</li>
+              ) : (
+                <li>No splitting</li>
+              )}
+              <li>{rules.surrender === "none" ? "No surrender" : `${rules.surrender === "early" ? "Early" : "Late"} surrender`}</li>
+              <li>{rules.turnSeconds} seconds per decision, then you stand (or decline insurance)</li>
+              <li>Miss {rules.idleTimeouts} turns in a row and you sit out until you bet again</li>
+              <li>
+                You sit down with ${rules.buyIn}
+                {rules.maxRebuys > 0 ? ` and can rebuy up to ${rules.maxRebuys} times once you can't cover the minimum` : "; there are no rebuys"}
+              </li>
+            </ul>
+          </section>
+
+          {(rules.perfectPairs || rules.twentyOnePlus3) && (
+            <section>
+              <h3 className="font-bold text-lg mb-2">🎲 Side Bets</h3>
+              <p className="mb-2">
+                Placed before the deal, up to ${rules.sideBetMax} each, and settled as soon as the cards are out. Winners get their stake back plus:
+              </p>
+              <ul className="list-disc list-inside space-y-1">
+                {rules.perfectPairs && (
+                  <li>
+                    <b>Perfect Pairs</b> (your first two cards): mixed pair {rules.perfectPairs.mixed}:1, colored pair {rules.perfectPairs.colored}:1,
+                    perfect pair {rules.perfectPairs.perfect}:1
+                  </li>
+                )}
+                {rules.twentyOnePlus3 && (
+                  <li>
+                    <b>21+3</b> (your two cards and the dealer's upcard): flush {rules.twentyOnePlus3.flush}:1, straight {rules.twentyOnePlus3.straight}:1,
+                    three of a kind {rules.twentyOnePlus3.threeOfAKind}:1, straight flush {rules.twentyOnePlus3.straightFlush}:1, suited trips{" "}
+                    {rules.twentyOnePlus3.suitedTrips}:1
+                  </li>
+                )}
+              </ul>
+            </section>
+          )}
+
           <section>
             <h3 className="font-bold text-lg mb-2">⌨️ Keyboard Shortcuts</h3>
             <ul className="list-disc list-inside space-y-1">
               <li><b>H:</b> Hit</li>
               <li><b>S:</b> Stand</li>
               <li><b>D:</b> Double</li>
+              <li><b>P:</b> Split</li>
+              <li><b>R:</b> Surrender</li>
             </ul>
           </section>
         </div>
@@ -793,69 +3431,123 @@ function HelpOverlay({ onClose }: { onClose: () => void }) {
 
 // ===================== Main App =====================
 export default function App() {
-  const WS_URL = "wss://blackjack-server-production-0a13.up.railway.app";
-  const { connected, state, send, joinRoom, reconnecting, chatMessages } = useWs(WS_URL);
+  const WS_URL = import.meta.env.VITE_WS_URL || "wss://blackjack-server-production-0a13.up.railway.app";
+  const { notices, notify, dismiss } = useNotifications();
+  const online = useWs(WS_URL, notify);
+  const offline = useLocalTable(notify);
+  const [playingOffline, setPlayingOffline] = useState(false);
+  const { connected, state, playerId, send, joinRoom, reconnecting, chatMessages, clockOffset, ledger } = playingOffline ? offline : online;
+  const joined = playerId !== null;
+  // Spectating is online only; a local table always seats its one player.
+  const watching = !playingOffline && online.watching;
+  const atTable = joined || watching;
+  const { browseRooms } = online;
   const { sounds, muted, setMuted } = useSounds();
+  const shoe = useShoeTracker(state);
+  const { rounds, addRounds, clearHistory } = useHandHistory(state, playerId);
+  const handStats = useHandStats(rounds, state?.code ?? null, playerId);
+  const dealtFrom = useDealtCards(state);
+  const [showFairness, setShowFairness] = useState(false);
+  const [initialPrefs] = useState(() => loadLocal(PREFS));
+  const [clientSeed, setClientSeed] = useState(initialPrefs.clientSeed);
+  const sentSeedRef = useRef<string | null>(null);
   
-  const [name, setName] = useState("");
+  const [name, setName] = useState(initialPrefs.name);
   const [roomCode, setRoomCode] = useState("");
-  const [joined, setJoined] = useState(false);
-  const [theme, setTheme] = useState<Theme>("classic");
-  const [stats, setStats] = useState<Stats>({
-    gamesPlayed: 0,
-    wins: 0,
-    losses: 0,
-    pushes: 0,
-    blackjacks: 0,
-    currentStreak: 0,
-    bestStreak: 0
-  });
+  const [roomPassword, setRoomPassword] = useState("");
+  const [theme, setTheme] = useState<Theme>(initialPrefs.theme);
+  const [stats, setStats] = useState<Stats>(() => loadLocal(STATS));
   const [showHelp, setShowHelp] = useState(false);
+  const [newRoomRules, setNewRoomRules] = useState<TableRules>(DEFAULT_RULES);
+  const [newRoomPublic, setNewRoomPublic] = useState(false);
   const [lastBet, setLastBet] = useState(0);
   const [discardCards, setDiscardCards] = useState(false);
+  const [showHints, setShowHints] = useState(initialPrefs.hints);
+  const [strategyStats, setStrategyStats] = useState<StrategyStats>(() => loadLocal(STRATEGY_STATS));
+  const [trainerMode, setTrainerMode] = useState(initialPrefs.trainer);
+  const [countStats, setCountStats] = useState<CountStats>(() => loadLocal(COUNT_STATS));
+  const localProfile = useMemo((): ProfileData => {
+    const synced: Record<keyof Stats, number> = stats;
+    return { stats: synced, prefs: { name, theme, hints: showHints, trainer: trainerMode }, bankroll: offline.bankroll };
+  }, [stats, name, theme, showHints, trainerMode, offline.bankroll]);
+  const applyProfile = (data: ProfileData) => {
+    setStats(STATS.read(data.stats));
+    const prefs = PREFS.read({ ...data.prefs, clientSeed });
+    if (prefs.name) setName(prefs.name);
+    setTheme(prefs.theme);
+    setShowHints(prefs.hints);
+    setTrainerMode(prefs.trainer);
+    // A practice table in progress keeps the bankroll it sat down with.
+    if (!playingOffline) offline.replaceBankroll(data.bankroll);
+  };
+  const account = useProfileSync({
+    connected: online.connected,
+    sendProfile: online.sendProfile,
+    onProfileReply: online.onProfileReply,
+    notify,
+    local: localProfile,
+    apply: applyProfile,
+  });
+  const [quiz, setQuiz] = useState<CountAnswer | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showStatsView, setShowStatsView] = useState(false);
+  const [showProfile, setShowProfile] = useState(false);
+  const [replayRound, setReplayRound] = useState<RoundRecord | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
 
   const prevPhaseRef = useRef<string | null>(null);
+  const quizPhaseRef = useRef<string | null>(null);
+  const adviceRef = useRef<{ advice: Decision; situation: string; category: HandCategory; legal: string[] } | null>(null);
 
   useEffect(() => {
-    const savedName = localStorage.getItem("bj_name");
-    const savedTheme = localStorage.getItem("bj_theme") as Theme;
-    const savedStats = localStorage.getItem("bj_stats");
-    
-    if (savedName) setName(savedName);
-    if (savedTheme) setTheme(savedTheme);
-    if (savedStats) setStats(JSON.parse(savedStats));
-  }, []);
+    saveLocal(COUNT_STATS, countStats);
+  }, [countStats]);
 
   useEffect(() => {
-    localStorage.setItem("bj_theme", theme);
-  }, [theme]);
+    saveLocal(STRATEGY_STATS, strategyStats);
+  }, [strategyStats]);
 
   useEffect(() => {
-    if (name) localStorage.setItem("bj_name", name);
-  }, [name]);
+    saveLocal(PREFS, { name, theme, hints: showHints, trainer: trainerMode, clientSeed });
+  }, [name, theme, showHints, trainerMode, clientSeed]);
 
   useEffect(() => {
-    localStorage.setItem("bj_stats", JSON.stringify(stats));
+    saveLocal(STATS, stats);
   }, [stats]);
 
   useEffect(() => {
     if (state?.phase === "RESULT" && prevPhaseRef.current !== "RESULT") {
-      const me = state.players.find(p => p.name === name);
-      if (me?.result) {
+      const me = state.players.find(p => p.id === playerId);
+      const results = me?.hands.map(h => h.result).filter(Boolean) ?? [];
+      if (results.length > 0) {
         const newStats = { ...stats };
-        newStats.gamesPlayed++;
-        if (me.result === "WIN" || me.result === "BLACKJACK") {
-          newStats.wins++;
-          newStats.currentStreak++;
-          if (newStats.currentStreak > newStats.bestStreak) {
-            newStats.bestStreak = newStats.currentStreak;
+        // Every hand, split hands included, counts as a game of its own.
+        for (const result of results) {
+          newStats.gamesPlayed++;
+          if (result === "WIN" || result === "BLACKJACK") {
+            newStats.wins++;
+            newStats.currentStreak++;
+            if (newStats.currentStreak > newStats.bestStreak) {
+              newStats.bestStreak = newStats.currentStreak;
+            }
+            if (result === "BLACKJACK") newStats.blackjacks++;
+          } else if (result === "LOSE" || result === "BUST") {
+            newStats.losses++;
+            newStats.currentStreak = 0;
+          } else if (result === "SURRENDER") {
+            newStats.surrenders++;
+            newStats.currentStreak = 0;
+          } else {
+            newStats.pushes++;
+          }
+        }
+        for (const side of Object.values(me?.sideBets ?? {})) {
+          newStats.sideBetsPlaced++;
+          newStats.sideBetsWagered += side.stake;
+          if (side.outcome) {
+            newStats.sideBetsWon++;
+            newStats.sideBetsPaid += side.stake + (side.win ?? 0);
           }
-          if (me.result === "BLACKJACK") newStats.blackjacks++;
-        } else if (me.result === "LOSE" || me.result === "BUST") {
-          newStats.losses++;
-          newStats.currentStreak = 0;
-        } else {
-          newStats.pushes++;
         }
         setStats(newStats);
       }
@@ -863,6 +3555,15 @@ export default function App() {
     prevPhaseRef.current = state?.phase || null;
   }, [state?.phase]);
 
+  useEffect(() => {
+    // A fresh LOBBY means the last round's cards are all counted.
+    const enteredLobby = state?.phase === "LOBBY" && quizPhaseRef.current !== "LOBBY";
+    quizPhaseRef.current = state?.phase ?? null;
+    if (enteredLobby && trainerMode && shoe.seen > 0 && Math.random() < QUIZ_CHANCE) {
+      setQuiz({ runningCount: shoe.runningCount, trueCount: shoe.trueCount });
+    }
+  }, [state?.phase, trainerMode, shoe.seen, shoe.runningCount, shoe.trueCount]);
+
   useEffect(() => {
     if (state?.phase === "RESULT") {
       const timer = setTimeout(() => {
@@ -878,22 +3579,64 @@ export default function App() {
     }
   }, [state?.phase]);
 
+  useEffect(() => {
+    // The room list is only needed on the welcome screen.
+    if (atTable || playingOffline) return;
+    browseRooms(true);
+    return () => browseRooms(false);
+  }, [atTable, playingOffline, browseRooms]);
+
+  // Keeps our seed in the table's next shuffle. The table only takes it between rounds, and the ref
+  // stops a resend while the first is in flight.
+  useEffect(() => {
+    if (!state || !playerId || state.phase !== "LOBBY" || state.fairness.clientSeeds[playerId] === clientSeed) return;
+    const key = `${state.code}:${playerId}:${clientSeed}`;
+    if (sentSeedRef.current === key) return;
+    sentSeedRef.current = key;
+    send("clientSeed", { seed: clientSeed });
+  }, [state, playerId, clientSeed, send]);
+
+  const tableRules = state?.rules ?? DEFAULT_RULES;
+  const sideBetKinds = SIDE_BET_KINDS.filter(kind => offersSideBet(tableRules, kind));
+  const sideBetChips = chipsFor(tableRules).filter(chip => chip <= tableRules.sideBetMax).slice(0, 4);
+
   const handleCreateRoom = () => {
-    if (!name.trim()) { alert("Enter your name!"); return; }
+    if (!name.trim()) { notify("warning", "Enter your name!", { target: "join" }); return; }
     const newCode = generateRoomCode();
     setRoomCode(newCode);
-    joinRoom(newCode, name.trim());
-    setJoined(true);
+    joinRoom(newCode, name.trim(), { rules: newRoomRules, isPublic: newRoomPublic });
+  };
+
+  const handlePlayOffline = () => {
+    if (!name.trim()) { notify("warning", "Enter your name!", { target: "join" }); return; }
+    setPlayingOffline(true);
+    offline.joinRoom("OFFLINE", name.trim(), { rules: newRoomRules });
   };
 
   const handleJoinRoom = () => {
-    if (!name.trim() || !roomCode.trim()) { alert("Enter name and room code!"); return; }
-    joinRoom(roomCode.toUpperCase(), name.trim());
-    setJoined(true);
+    if (!name.trim() || !roomCode.trim()) { notify("warning", "Enter name and room code!", { target: "join" }); return; }
+    joinRoom(roomCode.toUpperCase(), name.trim(), { password: roomPassword || undefined });
+  };
+
+  const handleJoinListed = (room: RoomSummary) => {
+    setRoomCode(room.code);
+    if (!name.trim()) { notify("warning", "Enter your name!", { target: "join" }); return; }
+    if (room.hasPassword && !roomPassword) { notify("info", "This room needs a password", { target: "join" }); return; }
+    joinRoom(room.code, name.trim(), { password: roomPassword || undefined });
+  };
+
+  const handleWatchRoom = () => {
+    if (!roomCode.trim()) { notify("warning", "Enter a room code to watch!", { target: "join" }); return; }
+    online.watchRoom(roomCode.toUpperCase());
+  };
+
+  const handleTakeSeat = () => {
+    if (!name.trim()) { notify("warning", "Enter your name!", { target: "bet" }); return; }
+    online.takeSeat(name.trim(), roomPassword || undefined);
   };
 
   const handleReady = () => {
-    const me = state?.players.find(p => p.name === name);
+    const me = state?.players.find(p => p.id === playerId);
     send("ready", { ready: !me?.ready });
   };
 
@@ -908,19 +3651,69 @@ export default function App() {
   };
 
   const handleAllIn = () => {
-    const me = state?.players.find(p => p.name === name);
-    if (me) handleBet(me.stack);
+    const me = state?.players.find(p => p.id === playerId);
+    if (me) handleBet(Math.min(me.stack, me.bet < tableRules.maxBet ? tableRules.maxBet - me.bet : 0));
   };
 
   const handleStart = () => send("start");
-  const handleHit = () => { sounds.cardDeal(); send("hit"); };
-  const handleStand = () => send("stand");
-  const handleDouble = () => { sounds.cardDeal(); send("double"); };
+  const handleForceStart = () => send("forceStart");
+  const handleRebuy = () => send("rebuy");
+  const handleSideBet = (kind: SideBetKind, value: number) => send("sideBet", { kind, value });
+  const handleClientSeed = (seed: string) => setClientSeed(cleanClientSeed(seed));
+  /** Scores a decision on the hand in play against basic strategy before it is sent. */
+  const recordDecision = (taken: Decision) => {
+    const current = adviceRef.current;
+    if (!current || !current.legal.includes(taken)) return;
+    adviceRef.current = null;
+
+    setStrategyStats(prev => {
+      const bucket = prev.byCategory[current.category];
+      const isCorrect = taken === current.advice;
+      return {
+        byCategory: {
+          ...prev.byCategory,
+          [current.category]: { correct: bucket.correct + (isCorrect ? 1 : 0), total: bucket.total + 1 },
+        },
+        recentMistakes: isCorrect
+          ? prev.recentMistakes
+          : [{ situation: current.situation, taken, correct: current.advice, timestamp: Date.now() }, ...prev.recentMistakes].slice(0, 10),
+      };
+    });
+  };
+
+  const handleHit = () => { recordDecision("hit"); sounds.cardDeal(); send("hit"); };
+  const handleStand = () => { recordDecision("stand"); send("stand"); };
+  const handleDouble = () => { recordDecision("double"); sounds.cardDeal(); send("double"); };
+  const handleSplit = () => { recordDecision("split"); sounds.cardDeal(); send("split"); };
   const handleInsurance = () => send("insurance");
+  const handleDeclineInsurance = () => send("declineInsurance");
+  const handleEvenMoney = () => send("evenMoney");
+  const handleSurrender = () => { recordDecision("surrender"); send("surrender"); };
+
+  const handleQuizAnswer = (runningCorrect: boolean, trueCorrect: boolean) => {
+    setCountStats(prev => ({
+      quizzes: prev.quizzes + 1,
+      runningCorrect: prev.runningCorrect + (runningCorrect ? 1 : 0),
+      trueCorrect: prev.trueCorrect + (trueCorrect ? 1 : 0),
+    }));
+  };
+
+  const handleImportHistory = (text: string) => {
+    try {
+      const imported = parseHistoryJson(text);
+      addRounds(imported);
+      setImportError(null);
+      setReplayRound(imported[0]);
+    } catch (err) {
+      if (!(err instanceof HistoryFileError)) throw err;
+      setImportError(err.message);
+    }
+  };
 
   const handleLeave = () => {
+    setQuiz(null);
     send("leave");
-    setJoined(false);
+    setPlayingOffline(false);
     setRoomCode("");
   };
 
@@ -928,48 +3721,119 @@ export default function App() {
     send("chat", { text: message });
   };
 
-  const me = state?.players.find(p => p.name === name);
+  const me = state?.players.find(p => p.id === playerId);
   const currentPlayer = state?.turnIdx >= 0 ? state?.players[state.turnIdx] : null;
-  const isMyTurn = state?.phase === "PLAYER" && currentPlayer?.name === name;
+  const legal = state && me ? legalActions(state, me.id) : [];
+  const isMyTurn = state?.phase === "PLAYER" && legal.length > 0;
+  const isMyInsuranceTurn = state?.phase === "INSURANCE" && legal.includes("declineInsurance");
+  // A local table has nobody else to moderate.
+  const amHost = !!state && !playingOffline && isHost(state, playerId);
   const dealerValue = calculateValue(state?.dealer.cards || []);
+  const dealerShowsAce = state?.dealer.cards[0]?.rank === "A";
+  const myHand = isMyTurn ? me?.hands[state.handIdx] : undefined;
+  const upcard = state?.dealer.cards[0];
+  const advice = myHand && upcard ? recommendPlay(myHand.cards, upcard, tableRules, legal) : null;
+
+  useEffect(() => {
+    adviceRef.current = advice && myHand && upcard
+      ? {
+          advice,
+          situation: describeHand(myHand.cards, upcard),
+          category: handCategory(myHand.cards),
+          legal: legal.filter(isDecision),
+        }
+      : null;
+  });
   const showDealerSecondCard = state?.phase === "DEALER" || state?.phase === "RESULT";
-  const canInsure = state?.phase === "INSURANCE" && state.dealer.cards[0]?.rank === "A";
 
+  // Registered again on every render, so a shortcut never acts on stale legal moves or handlers.
   useEffect(() => {
+    const shortcuts: Record<string, [(typeof legal)[number], () => void]> = {
+      h: ["hit", handleHit],
+      s: ["stand", handleStand],
+      d: ["double", handleDouble],
+      p: ["split", handleSplit],
+      r: ["surrender", handleSurrender],
+    };
     const handleKeyPress = (e: KeyboardEvent) => {
-      if (!isMyTurn) return;
-      if (e.key === "h" || e.key === "H") handleHit();
-      if (e.key === "s" || e.key === "S") handleStand();
-      if (e.key === "d" || e.key === "D") handleDouble();
+      // Letters typed into chat or a form are text, not moves.
+      const target = e.target;
+      if (target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement) return;
+      if (target instanceof HTMLElement && target.isContentEditable) return;
+      const shortcut = shortcuts[e.key.toLowerCase()];
+      if (shortcut && legal.includes(shortcut[0])) shortcut[1]();
     };
     window.addEventListener("keypress", handleKeyPress);
     return () => window.removeEventListener("keypress", handleKeyPress);
-  }, [isMyTurn]);
+  });
 
   return (
     <div className={`min-h-screen bg-gradient-to-br ${themes[theme]} text-white font-sans p-4 relative`}>
       <AnimatePresence>
-        {reconnecting && !connected && (
-          <motion.div
-            initial={{ opacity: 0 }}
-            animate={{ opacity: 1 }}
-            exit={{ opacity: 0 }}
-            className="fixed inset-0 bg-black/70 flex items-center justify-center z-50"
-          >
-            <div className="bg-green-800 rounded-2xl p-8 text-center">
-              <div className="text-4xl mb-4">🔄</div>
-              <div className="text-xl font-bold">Reconnecting...</div>
-            </div>
-          </motion.div>
+        {reconnecting && !connected && atTable && (
+          <ReconnectOverlay retryAt={online.retryAt} queued={online.queued} onRetry={online.reconnectNow} />
+        )}
+      </AnimatePresence>
+
+      <ToastStack notices={notices} onDismiss={dismiss} />
+
+      <AnimatePresence>
+        {showHelp && <HelpOverlay onClose={() => setShowHelp(false)} rules={tableRules} />}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {showFairness && state && (
+          <FairnessPanel
+            fairness={state.fairness}
+            clientSeed={clientSeed}
+            canSetSeed={joined}
+            seedPending={!!playerId && state.phase !== "LOBBY" && state.fairness.clientSeeds[playerId] !== clientSeed}
+            dealtFrom={dealtFrom}
+            onClientSeed={handleClientSeed}
+            onClose={() => setShowFairness(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {showHistory && (
+          <HistoryDrawer
+            rounds={rounds}
+            importError={importError}
+            onReplay={setReplayRound}
+            onImport={handleImportHistory}
+            onClear={clearHistory}
+            onClose={() => { setShowHistory(false); setImportError(null); }}
+          />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {showStatsView && <StatsView handStats={handStats} onClose={() => setShowStatsView(false)} />}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {showProfile && <ProfileDialog account={account} notices={notices} onClose={() => setShowProfile(false)} />}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {replayRound && (
+          <ReplayViewer
+            key={replayRound.id}
+            round={replayRound}
+            sounds={sounds}
+            muted={muted}
+            onClose={() => setReplayRound(null)}
+          />
         )}
       </AnimatePresence>
 
       <AnimatePresence>
-        {showHelp && <HelpOverlay onClose={() => setShowHelp(false)} />}
+        {quiz && joined && <CountQuiz answer={quiz} onAnswer={handleQuizAnswer} onClose={() => setQuiz(null)} />}
       </AnimatePresence>
 
       <AnimatePresence>
-        {state?.phase === "SHUFFLING" && <ShuffleAnimation sounds={sounds} />}
+        {state?.phase === "SHUFFLING" && <ShuffleAnimation sounds={sounds} commitment={state.fairness.nextCommitment} />}
       </AnimatePresence>
 
       <div className="max-w-[1800px] mx-auto">
@@ -979,6 +3843,24 @@ export default function App() {
             <button onClick={() => setShowHelp(true)} className="p-2 hover:bg-white/10 rounded-lg transition">
               <HelpCircle size={20} />
             </button>
+            <button onClick={() => setShowHistory(h => !h)} className="p-2 hover:bg-white/10 rounded-lg transition">
+              <History size={20} />
+            </button>
+            <button onClick={() => setShowProfile(true)} title={account.username ? `Signed in as ${account.username}` : "Sign in, or export or import your profile"} className="p-2 hover:bg-white/10 rounded-lg transition">
+              <UserCog size={20} />
+            </button>
+            {state && (
+              <button onClick={() => setShowFairness(true)} title="Provably fair shuffle" className="p-2 hover:bg-white/10 rounded-lg transition">
+                <ShieldCheck size={20} />
+              </button>
+            )}
+            <button
+              onClick={() => setTrainerMode(t => !t)}
+              title={trainerMode ? "Count trainer on: count hidden, random quizzes" : "Count trainer off"}
+              className={`p-2 rounded-lg transition ${trainerMode ? "bg-yellow-600/60 hover:bg-yellow-600/80" : "hover:bg-white/10"}`}
+            >
+              <Calculator size={20} />
+            </button>
             <button onClick={() => setMuted(!muted)} className="p-2 hover:bg-white/10 rounded-lg transition">
               {muted ? <VolumeX size={20} /> : <Volume2 size={20} />}
             </button>
@@ -989,13 +3871,13 @@ export default function App() {
               <Palette size={20} />
             </button>
             <div className="flex items-center gap-2">
-              <div className={`w-3 h-3 rounded-full ${connected ? "bg-green-400" : "bg-red-500"}`} />
-              <span className="text-sm">{connected ? "Online" : "Offline"}</span>
+              <div className={`w-3 h-3 rounded-full ${playingOffline ? "bg-blue-400" : connected ? "bg-green-400" : "bg-red-500"}`} />
+              <span className="text-sm">{playingOffline ? "Local Game" : connected ? "Online" : "Offline"}</span>
             </div>
           </div>
         </div>
 
-        {!joined ? (
+        {!atTable ? (
           <motion.div
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
@@ -1013,7 +3895,16 @@ export default function App() {
                 maxLength={12}
               />
 
-              <div className="border-t border-green-600 pt-4 mt-4">
+              {connected && (
+                <LobbyBrowser rooms={online.rooms} onJoin={handleJoinListed} onWatch={(code) => online.watchRoom(code)} />
+              )}
+
+              <div className="border-t border-green-600 pt-4 mt-4 space-y-3">
+                <RulesPicker rules={newRoomRules} onChange={setNewRoomRules} />
+                <label className="flex items-center gap-2 text-sm cursor-pointer">
+                  <input type="checkbox" checked={newRoomPublic} onChange={(e) => setNewRoomPublic(e.target.checked)} />
+                  🌐 Public room <span className="opacity-60">(listed in the lobby)</span>
+                </label>
                 <button
                   onClick={handleCreateRoom}
                   disabled={!connected}
@@ -1038,21 +3929,54 @@ export default function App() {
                   className="w-full px-4 py-3 rounded-lg text-black text-center font-mono text-lg uppercase"
                   maxLength={8}
                 />
-                <button
-                  onClick={handleJoinRoom}
-                  disabled={!connected}
-                  className="w-full bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed px-6 py-3 rounded-lg font-bold text-lg transition shadow-lg"
-                >
-                  ➡️ Join Room
-                </button>
+                <input
+                  type="password"
+                  placeholder="Password (if the room has one)"
+                  value={roomPassword}
+                  onChange={(e) => setRoomPassword(e.target.value)}
+                  className="w-full px-4 py-2 rounded-lg text-black text-center"
+                  maxLength={20}
+                />
+                <div className="flex gap-2">
+                  <button
+                    onClick={handleJoinRoom}
+                    disabled={!connected}
+                    className="flex-1 bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed px-6 py-3 rounded-lg font-bold text-lg transition shadow-lg"
+                  >
+                    ➡️ Join Room
+                  </button>
+                  <button
+                    onClick={handleWatchRoom}
+                    disabled={!connected}
+                    title="Follow the table without taking a seat"
+                    className="bg-gray-700 hover:bg-gray-600 disabled:bg-gray-600 disabled:cursor-not-allowed px-6 py-3 rounded-lg font-bold text-lg transition shadow-lg"
+                  >
+                    👀 Watch
+                  </button>
+                </div>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <div className="flex-1 h-px bg-green-600" />
+                <span className="text-sm opacity-70">NO CONNECTION?</span>
+                <div className="flex-1 h-px bg-green-600" />
               </div>
+
+              <button
+                onClick={handlePlayOffline}
+                className="w-full bg-gray-700 hover:bg-gray-600 px-6 py-3 rounded-lg font-bold text-lg transition shadow-lg"
+              >
+                📴 Play Offline
+              </button>
+
+              <InlineNotice notices={notices} target="join" />
             </div>
           </motion.div>
         ) : (
           <div className="grid grid-cols-[320px_1fr_320px] gap-6 items-start">
             {/* LEFT SIDEBAR - Chat */}
             <div className="space-y-4">
-              <ChatPanel messages={chatMessages} onSend={handleSendChat} />
+              <ChatPanel messages={chatMessages} onSend={watching ? undefined : handleSendChat} />
             </div>
 
             {/* CENTER - Game Area */}
@@ -1062,8 +3986,13 @@ export default function App() {
                   <span className="text-sm opacity-80">Room:</span>
                   <span className="font-mono font-bold text-xl ml-2">{state?.code || roomCode}</span>
                   <span className="text-sm opacity-60 ml-2">
-                    ({state?.players.length || 0}/8 players)
+                    ({state?.players.length || 0}/{tableRules.maxSeats} players)
                   </span>
+                  {state?.locked && <span className="text-sm ml-2" title="Locked by the host">🔒</span>}
+                  {state?.hasPassword && <span className="text-sm ml-1" title="Password protected">🔑</span>}
+                  {!playingOffline && online.spectators > 0 && (
+                    <span className="text-sm opacity-60 ml-2">· 👀 {online.spectators} watching</span>
+                  )}
                 </div>
                 <div>
                   <span className="text-sm opacity-80">Phase:</span>
@@ -1088,6 +4017,16 @@ export default function App() {
                 <div className="absolute top-4 left-4 bg-blue-900/80 rounded-lg p-2 border-2 border-blue-700 shadow-xl">
                   <div className="text-xs opacity-70">SHOE</div>
                   <div className="text-2xl">🎴</div>
+                  <div className="text-xs font-mono">{shoe.remaining} left</div>
+                  <div className="w-full h-1 bg-gray-700 rounded-full overflow-hidden my-1">
+                    <div className="h-full bg-blue-400" style={{ width: `${Math.min(shoe.penetration, 1) * 100}%` }} />
+                  </div>
+                  <div className="text-xs opacity-70">{Math.round(shoe.penetration * 100)}% dealt</div>
+                  {!trainerMode && (
+                    <div className="text-xs font-mono mt-1">
+                      RC {formatCount(shoe.runningCount)} · TC {formatCount(shoe.trueCount)}
+                    </div>
+                  )}
                 </div>
 
                 <div className="absolute top-4 right-4 bg-gray-800/80 rounded-lg p-2 border-2 border-gray-700 shadow-xl">
@@ -1113,9 +4052,9 @@ export default function App() {
 
               <div className="flex flex-col items-center gap-4 my-6">
                 <TurnTimer 
-                  isActive={state?.phase === "PLAYER"} 
-                  currentPlayer={currentPlayer?.name || null}
-                  duration={20}
+                  deadline={watching ? null : state.turnDeadline}
+                  duration={tableRules.turnSeconds}
+                  clockOffset={clockOffset}
                   sounds={sounds}
                 />
               </div>
@@ -1126,7 +4065,9 @@ export default function App() {
                     key={player.id}
                     player={player}
                     isActive={state.phase === "PLAYER" && typeof state.turnIdx === 'number' && state.turnIdx === idx}
-                    isMe={player.name === name}
+                    activeHand={state.handIdx}
+                    isMe={player.id === playerId}
+                    isHost={player.id === state.hostId}
                     showWin={state.phase === "RESULT"}
                     sounds={sounds}
                     toDiscard={discardCards}
@@ -1136,7 +4077,34 @@ export default function App() {
               </div>
 
               <div className="bg-green-800/60 backdrop-blur-xl rounded-2xl p-6 shadow-2xl border border-green-700/50">
-                {state?.phase === "LOBBY" && (
+                {state?.phase === "LOBBY" && watching && (
+                  <div className="text-center space-y-4">
+                    <div className="text-lg opacity-80">👀 You are watching this table</div>
+                    {state.players.length < tableRules.maxSeats ? (
+                      <div className="flex justify-center gap-2">
+                        <input
+                          type="text"
+                          placeholder="Your Name"
+                          value={name}
+                          onChange={(e) => setName(e.target.value)}
+                          className="px-4 py-2 rounded-lg text-black text-center font-semibold"
+                          maxLength={12}
+                        />
+                        <button
+                          onClick={handleTakeSeat}
+                          className="bg-green-600 hover:bg-green-700 px-6 py-2 rounded-lg font-bold transition shadow-lg"
+                        >
+                          🪑 Take a Seat
+                        </button>
+                      </div>
+                    ) : (
+                      <div className="text-sm opacity-70">All seats are taken</div>
+                    )}
+                    <InlineNotice notices={notices} target="bet" />
+                  </div>
+                )}
+
+                {state?.phase === "LOBBY" && !watching && (
                   <div className="space-y-6">
                     <div className="flex justify-center gap-4">
                       <button
@@ -1170,22 +4138,70 @@ export default function App() {
                         </div>
                       </div>
                       <div className="flex justify-center gap-3 flex-wrap">
-                        {[5, 25, 100, 500, 1000].map((chip) => (
+                        {chipsFor(tableRules).map((chip) => (
                           <motion.button
                             key={chip}
                             whileHover={{ scale: 1.1 }}
                             whileTap={{ scale: 0.95 }}
                             onClick={() => handleBet(chip)}
-                            disabled={!me || me.stack < chip}
+                            disabled={!me || !legal.includes("bet") || me.stack < chip}
                             className="w-20 h-20 rounded-full bg-gradient-to-br from-red-500 to-red-700 hover:from-red-600 hover:to-red-800 disabled:from-gray-600 disabled:to-gray-700 disabled:cursor-not-allowed font-bold text-xl shadow-2xl transition border-4 border-white/30"
                           >
                             ${chip}
                           </motion.button>
                         ))}
                       </div>
+                      {sideBetKinds.length > 0 && (
+                        <div className="mt-4 grid gap-3 sm:grid-cols-2">
+                          {sideBetKinds.map(kind => (
+                            <div key={kind} className="bg-purple-900/30 border border-purple-500/40 rounded-lg p-3">
+                              <div className="flex justify-between items-baseline mb-2">
+                                <span className="font-semibold text-sm">{SIDE_BET_NAMES[kind]}</span>
+                                <span className="text-xs opacity-70">
+                                  ${me?.sideBets[kind]?.stake ?? 0} / ${tableRules.sideBetMax}
+                                </span>
+                              </div>
+                              <div className="flex gap-2 flex-wrap">
+                                {sideBetChips.map(chip => (
+                                  <button
+                                    key={chip}
+                                    onClick={() => handleSideBet(kind, chip)}
+                                    disabled={!me || !legal.includes("sideBet") || me.stack < chip}
+                                    className="w-11 h-11 rounded-full bg-gradient-to-br from-purple-500 to-purple-700 hover:from-purple-600 hover:to-purple-800 disabled:from-gray-600 disabled:to-gray-700 disabled:cursor-not-allowed text-xs font-bold border-2 border-white/30 transition"
+                                  >
+                                    ${chip}
+                                  </button>
+                                ))}
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                      <div className="mt-3">
+                        <InlineNotice notices={notices} target="bet" />
+                      </div>
                     </div>
 
-                    {state.players.length > 0 && state.players.every(p => p.ready && p.bet > 0) && (
+                    {legal.includes("rebuy") && (
+                      <div className="flex flex-col items-center gap-1">
+                        <button
+                          onClick={handleRebuy}
+                          className="bg-emerald-600 hover:bg-emerald-700 px-8 py-3 rounded-lg font-bold text-lg transition shadow-lg"
+                        >
+                          💵 Rebuy ${tableRules.buyIn}
+                        </button>
+                        <div className="text-xs opacity-70">
+                          {tableRules.maxRebuys - (me?.rebuys ?? 0)} of {tableRules.maxRebuys} rebuys left
+                        </div>
+                      </div>
+                    )}
+                    {me && me.stack + me.bet < tableRules.minBet && !legal.includes("rebuy") && (
+                      <div className="text-center text-sm text-red-300">
+                        You're out of chips and there are no rebuys left at this table
+                      </div>
+                    )}
+
+                    {legal.includes("start") && (
                       <motion.div
                         initial={{ scale: 0 }}
                         animate={{ scale: 1 }}
@@ -1199,28 +4215,65 @@ export default function App() {
                         </button>
                       </motion.div>
                     )}
-                  </div>
-                )}
-
-                {state?.phase === "INSURANCE" && canInsure && (
-                  <div className="text-center space-y-4">
-                    <div className="text-xl font-bold animate-pulse">Insurance Available!</div>
-                    <div className="text-sm opacity-80">Dealer showing Ace</div>
-                    {isMyTurn ? (
-                      <div className="flex justify-center gap-4">
-                        <button
-                          onClick={handleInsurance}
-                          className="bg-yellow-600 hover:bg-yellow-700 px-8 py-4 rounded-lg font-bold text-lg transition"
-                        >
-                          💰 Buy Insurance
-                        </button>
+                    {amHost && !legal.includes("start") && canForceStart(state) && (
+                      <div className="flex flex-col items-center gap-1">
                         <button
-                          onClick={() => send("stand")}
-                          className="bg-gray-600 hover:bg-gray-700 px-8 py-4 rounded-lg font-bold text-lg transition"
+                          onClick={handleForceStart}
+                          className="bg-blue-800 hover:bg-blue-700 px-8 py-3 rounded-lg font-bold text-lg transition shadow-lg"
                         >
-                          ❌ No Thanks
+                          ⏩ Force Start
                         </button>
+                        <div className="text-xs opacity-70">Players who aren't ready sit this round out</div>
                       </div>
+                    )}
+                  </div>
+                )}
+
+                {state?.phase === "INSURANCE" && (
+                  <div className="text-center space-y-4">
+                    <div className="text-xl font-bold animate-pulse">
+                      {legal.includes("evenMoney") ? "Even Money?" : dealerShowsAce ? "Insurance Available!" : "Early Surrender"}
+                    </div>
+                    <div className="text-sm opacity-80">
+                      {dealerShowsAce ? "Dealer showing Ace" : "Dealer showing a ten, checking for Blackjack next"}
+                    </div>
+                    {isMyInsuranceTurn ? (
+                      <>
+                        <div className="flex justify-center gap-4">
+                          {legal.includes("evenMoney") && (
+                            <button
+                              onClick={handleEvenMoney}
+                              className="bg-green-600 hover:bg-green-700 px-8 py-4 rounded-lg font-bold text-lg transition"
+                            >
+                              💵 Take ${me?.hands[0]?.bet} Now
+                            </button>
+                          )}
+                          {dealerShowsAce && !legal.includes("evenMoney") && (
+                            <button
+                              onClick={handleInsurance}
+                              disabled={!legal.includes("insurance")}
+                              className="disabled:bg-gray-600 disabled:cursor-not-allowed bg-yellow-600 hover:bg-yellow-700 px-8 py-4 rounded-lg font-bold text-lg transition"
+                            >
+                              💰 Buy Insurance
+                            </button>
+                          )}
+                          {legal.includes("surrender") && (
+                            <button
+                              onClick={handleSurrender}
+                              className="bg-orange-600 hover:bg-orange-700 px-8 py-4 rounded-lg font-bold text-lg transition"
+                            >
+                              🏳️ Surrender
+                            </button>
+                          )}
+                          <button
+                            onClick={handleDeclineInsurance}
+                            className="bg-gray-600 hover:bg-gray-700 px-8 py-4 rounded-lg font-bold text-lg transition"
+                          >
+                            ❌ No Thanks
+                          </button>
+                        </div>
+                        <InlineNotice notices={notices} target="actions" />
+                      </>
                     ) : (
                       <div className="text-lg opacity-70">
                         Waiting for {currentPlayer?.name} to decide...
@@ -1231,16 +4284,42 @@ export default function App() {
 
                 {state?.phase === "PLAYER" && isMyTurn && (
                   <div className="space-y-4">
-                    <div className="text-center text-lg font-semibold mb-4">Your Turn!</div>
-                    <div className="flex justify-center gap-4 flex-wrap">
-                      <motion.button
-                        whileHover={{ scale: 1.05 }}
-                        whileTap={{ scale: 0.95 }}
-                        onClick={handleHit}
-                        className="bg-blue-600 hover:bg-blue-700 px-8 py-4 rounded-lg font-bold text-xl transition shadow-lg"
+                    <div className="text-center text-lg font-semibold mb-4">
+                      Your Turn!
+                      {me && me.hands.length > 1 && (
+                        <span className="opacity-70 ml-2">Hand {state.handIdx + 1} of {me.hands.length}</span>
+                      )}
+                    </div>
+                    <div className="flex justify-center items-center gap-3 flex-wrap">
+                      <button
+                        onClick={() => setShowHints(h => !h)}
+                        className={`text-sm px-3 py-1 rounded-lg transition ${showHints ? "bg-yellow-600 hover:bg-yellow-700" : "bg-gray-700 hover:bg-gray-600"}`}
                       >
-                        👆 HIT <span className="text-sm opacity-70">(H)</span>
-                      </motion.button>
+                        💡 Hints {showHints ? "On" : "Off"}
+                      </button>
+                      {showHints && advice && myHand && upcard && (
+                        <motion.div
+                          key={advice + myHand.cards.length}
+                          initial={{ opacity: 0, y: -5 }}
+                          animate={{ opacity: 1, y: 0 }}
+                          className="text-sm bg-black/30 rounded-lg px-3 py-1"
+                        >
+                          📘 Basic strategy: <b className="text-yellow-400">{advice.toUpperCase()}</b>
+                          <span className="opacity-70 ml-2">({describeHand(myHand.cards, upcard)})</span>
+                        </motion.div>
+                      )}
+                    </div>
+                    <div className="flex justify-center gap-4 flex-wrap">
+                      {legal.includes("hit") && (
+                        <motion.button
+                          whileHover={{ scale: 1.05 }}
+                          whileTap={{ scale: 0.95 }}
+                          onClick={handleHit}
+                          className="bg-blue-600 hover:bg-blue-700 px-8 py-4 rounded-lg font-bold text-xl transition shadow-lg"
+                        >
+                          👆 HIT <span className="text-sm opacity-70">(H)</span>
+                        </motion.button>
+                      )}
                       <motion.button
                         whileHover={{ scale: 1.05 }}
                         whileTap={{ scale: 0.95 }}
@@ -1249,7 +4328,7 @@ export default function App() {
                       >
                         ✋ STAND <span className="text-sm opacity-70">(S)</span>
                       </motion.button>
-                      {me?.cards.length === 2 && me.stack >= me.bet && (
+                      {legal.includes("double") && (
                         <motion.button
                           whileHover={{ scale: 1.05 }}
                           whileTap={{ scale: 0.95 }}
@@ -1259,7 +4338,28 @@ export default function App() {
                           ⚡ DOUBLE <span className="text-sm opacity-70">(D)</span>
                         </motion.button>
                       )}
+                      {legal.includes("split") && (
+                        <motion.button
+                          whileHover={{ scale: 1.05 }}
+                          whileTap={{ scale: 0.95 }}
+                          onClick={handleSplit}
+                          className="bg-teal-600 hover:bg-teal-700 px-8 py-4 rounded-lg font-bold text-xl transition shadow-lg"
+                        >
+                          ✂️ SPLIT <span className="text-sm opacity-70">(P)</span>
+                        </motion.button>
+                      )}
+                      {legal.includes("surrender") && (
+                        <motion.button
+                          whileHover={{ scale: 1.05 }}
+                          whileTap={{ scale: 0.95 }}
+                          onClick={handleSurrender}
+                          className="bg-orange-600 hover:bg-orange-700 px-8 py-4 rounded-lg font-bold text-xl transition shadow-lg"
+                        >
+                          🏳️ SURRENDER <span className="text-sm opacity-70">(R)</span>
+                        </motion.button>
+                      )}
                     </div>
+                    <InlineNotice notices={notices} target="actions" />
                   </div>
                 )}
 
@@ -1291,7 +4391,11 @@ export default function App() {
 
             {/* RIGHT SIDEBAR - Stats */}
             <div className="space-y-4">
-              <StatsPanel stats={stats} />
+              {amHost && state && playerId && (
+                <HostControls state={state} playerId={playerId} notices={notices} send={send} />
+              )}
+              {me && <BankrollPanel ledger={ledger} stack={me.stack + me.bet} rebuys={me.rebuys} rules={tableRules} />}
+              <StatsPanel stats={stats} strategy={strategyStats} counting={countStats} onShowDetails={() => setShowStatsView(true)} />
             </div>
           </div>
         )}
@@ -0,0 +1,50 @@
+import type { Card, Rank, Suit } from "./types.ts";
+
+export const SUITS: Suit[] = ["♠", "♥", "♦", "♣"];
+export const RANKS: Rank[] = ["A", "2", "3", "4", "5", "6", "7", "8", "9", "10", "J", "Q", "K"];
+
+/**
+ * Builds a shuffled shoe, dealt from the end. Card ids are `<shoeNo>-<position in the draw order>`:
+ * unique across shoes, and they say nothing about a face-down card.
+ */
+export function newShoe(deckCount: number, shoeNo: number, random: () => number = Math.random): Card[] {
+  const shoe: Omit<Card, "id">[] = [];
+  for (let d = 0; d < deckCount; d++) {
+    for (const suit of SUITS) {
+      for (const rank of RANKS) {
+        shoe.push({ suit, rank });
+      }
+    }
+  }
+  for (let i = shoe.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shoe[i], shoe[j]] = [shoe[j], shoe[i]];
+  }
+  return shoe.map((card, idx) => ({ id: `${shoeNo}-${shoe.length - 1 - idx}`, ...card }));
+}
+
+/** Blackjack value of a single card, counting an Ace as 11. */
+export const cardValue = (card: Card): number =>
+  card.rank === "A" ? 11 : ["J", "Q", "K"].includes(card.rank) ? 10 : parseInt(card.rank);
+
+export const calculateValue = (cards: Card[]): number => {
+  let sum = 0, aces = 0;
+  for (const c of cards) {
+    if (c.rank === "A") { aces++; sum += 11; }
+    else if (["J", "Q", "K"].includes(c.rank)) sum += 10;
+    else sum += parseInt(c.rank);
+  }
+  while (sum > 21 && aces > 0) { sum -= 10; aces--; }
+  return sum;
+};
+
+/** A hand is soft when one of its aces is still counted as 11. */
+export function isSoft(cards: Card[]): boolean {
+  let hard = 0;
+  for (const c of cards) hard += c.rank === "A" ? 1 : cardValue(c);
+  return cards.some(c => c.rank === "A") && hard + 10 <= 21;
+}
+
+export const isBlackjack = (cards: Card[]) => cards.length === 2 && calculateValue(cards) === 21;
+export const isBust = (cards: Card[]) => calculateValue(cards) > 21;
+export const isTenValue = (card?: Card) => !!card && ["10", "J", "Q", "K"].includes(card.rank);
@@ -0,0 +1,25 @@
+import { isHoleCardRevealed } from "./game.ts";
+import type { Card, GameState } from "./types.ts";
+
+const CARDS_PER_DECK = 52;
+
+/** Hi-Lo tag: +1 for 2–6, 0 for 7–9, −1 for tens and aces. */
+export function hiLoValue(card: Card): number {
+  if (["2", "3", "4", "5", "6"].includes(card.rank)) return 1;
+  if (["7", "8", "9"].includes(card.rank)) return 0;
+  return -1;
+}
+
+/** Every card a player at the table can see, leaving out the dealer's hole card until it is turned. */
+export function visibleCards(state: GameState): Card[] {
+  const dealer = isHoleCardRevealed(state.phase) ? state.dealer.cards : state.dealer.cards.filter((_, idx) => idx !== 1);
+  return [...dealer, ...state.players.flatMap(p => p.hands.flatMap(h => h.cards))];
+}
+
+export const shoeSize = (decks: number) => decks * CARDS_PER_DECK;
+
+/** Running count per deck still in the shoe, to one decimal. Decks remaining never drop below half a deck. */
+export function trueCount(runningCount: number, cardsRemaining: number): number {
+  const decksRemaining = Math.max(cardsRemaining / CARDS_PER_DECK, 0.5);
+  return Math.round((runningCount / decksRemaining) * 10) / 10;
+}
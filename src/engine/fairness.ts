@@ -0,0 +1,146 @@
+import { newShoe } from "./cards.ts";
+import type { Card, ShoeSeeds } from "./types.ts";
+
+// Provably fair shuffling. Before a shoe is used the host publishes the SHA-256 of a secret server
+// seed; players add their own client seeds; the shoe is a Fisher-Yates shuffle driven by hashes of
+// both. Once the shoe is done the server seed is revealed and anyone can rebuild the shoe.
+
+// ===================== SHA-256 =====================
+// Synchronous, so the reducer and the browser verifier can share it. Web Crypto only offers async.
+const K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+
+function digest(text: string): Uint32Array {
+  const bytes = new TextEncoder().encode(text);
+  const padded = new Uint8Array(Math.ceil((bytes.length + 9) / 64) * 64);
+  padded.set(bytes);
+  padded[bytes.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(padded.length - 8, Math.floor(bytes.length / 0x20000000));
+  view.setUint32(padded.length - 4, (bytes.length * 8) >>> 0);
+
+  const h = new Uint32Array([0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19]);
+  const w = new Uint32Array(64);
+  for (let offset = 0; offset < padded.length; offset += 64) {
+    for (let i = 0; i < 16; i++) w[i] = view.getUint32(offset + i * 4);
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = w[i - 16] + s0 + w[i - 7] + s1;
+    }
+
+    let [a, b, c, d, e, f, g, hh] = h;
+    for (let i = 0; i < 64; i++) {
+      const t1 = (hh + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + K[i] + w[i]) >>> 0;
+      const t2 = ((rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c))) >>> 0;
+      hh = g;
+      g = f;
+      f = e;
+      e = (d + t1) >>> 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) >>> 0;
+    }
+    [a, b, c, d, e, f, g, hh].forEach((v, i) => (h[i] += v));
+  }
+  return h;
+}
+
+/** Hex SHA-256 of the UTF-8 text. */
+export const sha256 = (text: string) => Array.from(digest(text), word => word.toString(16).padStart(8, "0")).join("");
+
+// ===================== Seeds =====================
+const MAX_CLIENT_SEED_LENGTH = 64;
+
+/** A fresh secret seed: 32 random bytes as hex. */
+export function randomSeed(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return Array.from(bytes, b => b.toString(16).padStart(2, "0")).join("");
+}
+
+export const cleanClientSeed = (seed: string) => seed.trim().slice(0, MAX_CLIENT_SEED_LENGTH);
+
+/** Numbers in [0, 1) from SHA-256(`serverSeed:clientSeed:shoeNo:counter`), eight per hash. */
+export function seededRandom(serverSeed: string, clientSeed: string, shoeNo: number): () => number {
+  let counter = 0;
+  let words: Uint32Array = new Uint32Array(0);
+  let idx = 0;
+  return () => {
+    if (idx >= words.length) {
+      words = digest(`${serverSeed}:${clientSeed}:${shoeNo}:${counter++}`);
+      idx = 0;
+    }
+    return words[idx++] / 0x100000000;
+  };
+}
+
+/**
+ * The shoe a set of seeds produces, exactly as the table builds it. A round that runs the shoe dry
+ * goes on with `pack` 1, 2, ...: the same decks shuffled again further along the same seeded stream,
+ * numbered on from where the shoe left off.
+ */
+export function shoeFromSeeds(serverSeed: string, seeds: Pick<ShoeSeeds, "decks" | "shoeNo" | "clientSeed">, pack = 0): Card[] {
+  const random = seededRandom(serverSeed, seeds.clientSeed, seeds.shoeNo);
+  let shoe = newShoe(seeds.decks, seeds.shoeNo, random);
+  for (let i = 1; i <= pack; i++) shoe = newShoe(seeds.decks, seeds.shoeNo, random);
+  const offset = pack * shoe.length;
+  return offset ? shoe.map(card => ({ ...card, id: `${seeds.shoeNo}-${offset + drawPosition(card)}` })) : shoe;
+}
+
+// ===================== Verification =====================
+export interface ShoeCheck {
+  /** The revealed server seed hashes to the commitment published before the shoe. */
+  commitmentOk: boolean;
+  /** Dealt cards compared against the rebuilt shoe. */
+  checked: number;
+  /** Draw positions that didn't match, e.g. "card 12: dealt 7♥, shoe has K♠". */
+  mismatches: string[];
+  /** Cards were dealt one after another from the first one seen, with none skipped. */
+  inOrder: boolean;
+  /** The first card seen was the first card of the shoe, so every card has been checked. */
+  fromStart: boolean;
+}
+
+/** Position of a card in the draw order, taken from its id (`<shoeNo>-<position>`). */
+export const drawPosition = (card: Card) => Number(card.id.split("-")[1]);
+
+/**
+ * Rebuilds a revealed shoe and compares it with `dealt`, the cards seen from that shoe in the
+ * order they came out.
+ */
+export function verifyShoe(seeds: ShoeSeeds, dealt: Card[]): ShoeCheck {
+  if (seeds.serverSeed === null) throw new Error(`Shoe ${seeds.shoeNo} has not been revealed yet`);
+  const { serverSeed } = seeds;
+  const packs = Math.floor(Math.max(0, ...dealt.map(drawPosition)) / (seeds.decks * 52)) + 1;
+  const shoe = Array.from({ length: packs }, (_, pack) => shoeFromSeeds(serverSeed, seeds, pack)).flat();
+  const byId = new Map(shoe.map(card => [card.id, card]));
+
+  const mismatches: string[] = [];
+  for (const card of dealt) {
+    const expected = byId.get(card.id);
+    if (!expected || expected.rank !== card.rank || expected.suit !== card.suit) {
+      const has = expected ? `${expected.rank}${expected.suit}` : "nothing";
+      mismatches.push(`card ${drawPosition(card) + 1}: dealt ${card.rank}${card.suit}, shoe has ${has}`);
+    }
+  }
+
+  const positions = dealt.map(drawPosition);
+  return {
+    commitmentOk: sha256(seeds.serverSeed) === seeds.commitment,
+    checked: dealt.length,
+    mismatches,
+    inOrder: positions.every((pos, idx) => idx === 0 || pos === positions[idx - 1] + 1),
+    fromStart: positions[0] === 0,
+  };
+}
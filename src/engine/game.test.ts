@@ -0,0 +1,467 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { drawPosition, verifyShoe } from "./fairness.ts";
+import { abandonRound, autoAction, bankrollOf, createTable, GameError, ledgerOf, legalActions, reduce } from "./game.ts";
+import { isStuck } from "./host.ts";
+import type { Card, Rank, SideBetKind, TableRules, TableState } from "./types.ts";
+
+// Rounds are dealt from a rigged shoe: the cards a test names come off the top in that order,
+// so every hand below is fully decided by the test that deals it.
+
+const T0 = 1_000_000;
+
+type Move = "hit" | "stand" | "double" | "split" | "surrender" | "insurance" | "declineInsurance" | "evenMoney";
+
+let drawn = 0;
+const card = (rank: Rank, suit: Card["suit"] = "♠"): Card => ({ id: `test-${drawn++}`, suit, rank });
+
+/** A one-deck table with each of `ids` seated, betting `bet` and ready. */
+function table(rules: Partial<TableRules> = {}, ids = ["ann"], bet = 10): TableState {
+  let state = createTable("TEST", { decks: 1, ...rules }, "server-seed");
+  for (const id of ids) {
+    state = reduce(state, { type: "join", playerId: id, name: id }, T0);
+    state = reduce(state, { type: "bet", playerId: id, value: bet }, T0);
+    state = reduce(state, { type: "ready", playerId: id, ready: true }, T0);
+  }
+  return state;
+}
+
+/** Runs the table's own steps until it waits on a player or the round is settled. */
+function advance(state: TableState, now = T0): TableState {
+  for (let action = autoAction(state); action && state.phase !== "RESULT"; action = autoAction(state)) {
+    state = reduce(state, action, now);
+  }
+  return state;
+}
+
+/**
+ * Starts the round and deals. `cards` are drawn in order: each seat's first card, the upcard, each
+ * seat's second card, the hole card, then whatever the players and the dealer draw.
+ */
+function deal(state: TableState, cards: (Rank | Card)[]): TableState {
+  const top = cards.map(c => (typeof c === "string" ? card(c) : c));
+  const filler = Array.from({ length: 40 }, () => card("2"));
+  state = { ...state, shoe: [...filler, ...top.reverse()] };
+  return advance(reduce(state, { type: "start", playerId: state.players[0].id }, T0));
+}
+
+function act(state: TableState, type: Move, playerId = "ann", now = T0): TableState {
+  return advance(reduce(state, { type, playerId }, now), now);
+}
+
+const seat = (state: TableState, id = "ann") => state.players.find(p => p.id === id)!;
+
+// ===================== Payouts =====================
+describe("payouts", () => {
+  it("pays a win even money", () => {
+    const state = act(deal(table(), ["10", "10", "9", "7"]), "stand");
+    assert.equal(state.phase, "RESULT");
+    assert.equal(seat(state).hands[0].result, "WIN");
+    assert.equal(seat(state).stack, 1010);
+  });
+
+  it("takes the bet on a loss and a bust", () => {
+    const lost = act(deal(table(), ["10", "10", "6", "8"]), "stand");
+    assert.equal(seat(lost).hands[0].result, "LOSE");
+    assert.equal(seat(lost).stack, 990);
+
+    const bust = act(deal(table(), ["10", "10", "6", "8", "K"]), "hit");
+    assert.equal(seat(bust).hands[0].result, "BUST");
+    assert.equal(seat(bust).stack, 990);
+  });
+
+  it("returns the bet on a push", () => {
+    const state = act(deal(table(), ["10", "10", "8", "8"]), "stand");
+    assert.equal(seat(state).hands[0].result, "PUSH");
+    assert.equal(seat(state).stack, 1000);
+  });
+
+  it("pays a blackjack 3:2", () => {
+    const state = deal(table(), ["A", "9", "K", "7"]);
+    assert.equal(state.phase, "RESULT");
+    assert.equal(seat(state).hands[0].result, "BLACKJACK");
+    assert.equal(seat(state).stack, 1015);
+  });
+
+  it("pays a blackjack 6:5 where the table says so", () => {
+    const state = deal(table({ blackjackPayout: "6:5" }), ["A", "9", "K", "7"]);
+    assert.equal(seat(state).hands[0].result, "BLACKJACK");
+    assert.equal(seat(state).stack, 1012);
+  });
+
+  it("has the dealer hit a soft 17 only where the table says so", () => {
+    const cards: Rank[] = ["10", "6", "9", "A", "2"];
+    const stands = act(deal(table(), cards), "stand");
+    assert.equal(seat(stands).hands[0].result, "WIN");
+
+    const hits = act(deal(table({ dealerHitsSoft17: true }), cards), "stand");
+    assert.equal(hits.dealer.cards.length, 3);
+    assert.equal(seat(hits).hands[0].result, "PUSH");
+  });
+
+  it("pushes a blackjack against a dealer blackjack", () => {
+    const state = deal(table(), ["A", "K", "Q", "A"]);
+    assert.equal(seat(state).hands[0].result, "PUSH");
+    assert.equal(seat(state).stack, 1000);
+  });
+
+  it("charges and pays a double on twice the bet", () => {
+    const state = deal(table(), ["6", "10", "5", "7", "10"]);
+    const doubled = act(state, "double");
+    assert.equal(seat(doubled).hands[0].bet, 20);
+    assert.equal(seat(doubled).hands[0].result, "WIN");
+    assert.equal(seat(doubled).stack, 1020);
+  });
+});
+
+// ===================== Splits =====================
+describe("split", () => {
+  it("plays and settles each hand on its own bet", () => {
+    let state = act(deal(table(), ["8", "10", "8", "7", "10", "9"]), "split");
+    assert.deepEqual(seat(state).hands.map(h => h.cards.map(c => c.rank)), [["8", "10"], ["8", "9"]]);
+    assert.equal(seat(state).stack, 980);
+
+    state = act(act(state, "stand"), "stand");
+    assert.deepEqual(seat(state).hands.map(h => h.result), ["WIN", "PUSH"]);
+    assert.equal(seat(state).stack, 1010);
+  });
+
+  it("re-splits a pair dealt onto a split hand", () => {
+    let state = act(deal(table(), ["8", "10", "8", "7", "8", "9", "3"]), "split");
+    state = act(state, "split");
+    assert.equal(seat(state).hands.length, 3);
+    assert.equal(seat(state).stack, 970);
+    assert.deepEqual(seat(state).hands.map(h => h.bet), [10, 10, 10]);
+  });
+
+  it("stops at the table's hand limit", () => {
+    const state = act(deal(table({ maxHands: 2 }), ["8", "10", "8", "7", "8", "9"]), "split");
+    assert.throws(() => reduce(state, { type: "split", playerId: "ann" }, T0), { message: "No more than 2 hands" });
+  });
+
+  it("deals split aces one card each and stands them", () => {
+    const state = act(deal(table(), ["A", "10", "A", "7", "5", "9"]), "split");
+    assert.equal(state.phase, "RESULT");
+    assert.deepEqual(seat(state).hands.map(h => h.cards.length), [2, 2]);
+    assert.deepEqual(seat(state).hands.map(h => h.result), ["LOSE", "WIN"]);
+    assert.equal(seat(state).stack, 1000);
+  });
+
+  it("re-splits aces only where the table allows it", () => {
+    const cards: Rank[] = ["A", "10", "A", "7", "A", "9"];
+    const strict = act(deal(table(), cards), "split");
+    assert.equal(strict.phase, "RESULT");
+    assert.equal(seat(strict).hands.length, 2);
+
+    const loose = act(deal(table({ resplitAces: true }), cards), "split");
+    assert.equal(loose.phase, "PLAYER");
+    assert.deepEqual(legalActions(loose, "ann"), ["stand", "split"]);
+  });
+
+  it("pays a two-card 21 on a split hand 1:1, not as a blackjack", () => {
+    const state = act(deal(table({ splitAcesOneCard: false }), ["A", "10", "A", "7", "K", "9", "10"]), "split");
+    assert.equal(seat(state).hands[0].status, "21");
+    const settled = act(state, "stand");
+    assert.deepEqual(seat(settled).hands.map(h => h.result), ["WIN", "WIN"]);
+    assert.equal(seat(settled).stack, 1020);
+  });
+
+  it("refuses a double after a split where the table says so", () => {
+    const state = act(deal(table({ doubleAfterSplit: false }), ["8", "10", "8", "7", "3", "9"]), "split");
+    assert.throws(() => reduce(state, { type: "double", playerId: "ann" }, T0), { message: "No doubling after a split at this table" });
+  });
+});
+
+// ===================== Shoe =====================
+describe("shoe", () => {
+  it("goes on with the next pack when a full one-deck table splits it dry", () => {
+    const ids = ["ann", "bob", "cat", "dan", "eve", "fay", "gus", "hal"];
+    let state = reduce(table({ maxHands: 4 }, ids), { type: "start", playerId: "ann" }, T0);
+    assert.equal(state.phase, "SHUFFLING");
+    state = reduce(state, autoAction(state)!, T0);
+    // Every card of the shuffled deck an eight, so each seat splits as far as the table allows.
+    state = advance({ ...state, shoe: state.shoe.map(c => ({ ...c, rank: "8" })) });
+
+    while (state.phase === "PLAYER") {
+      const id = state.players[state.turnIdx].id;
+      state = act(state, legalActions(state, id).includes("split") ? "split" : "stand", id);
+    }
+    assert.equal(state.phase, "RESULT");
+
+    const onTable = [...state.dealer.cards, ...state.players.flatMap(p => p.hands.flatMap(h => h.cards))];
+    assert.ok(onTable.length > 52);
+    assert.equal(new Set(onTable.map(c => c.id)).size, onTable.length);
+    assert.deepEqual(state.players.slice(0, 5).map(p => p.hands.length), [4, 4, 4, 4, 4]);
+
+    const refill = onTable.filter(c => drawPosition(c) >= 52).sort((a, b) => drawPosition(a) - drawPosition(b));
+    const check = verifyShoe({ ...state.fairness.current!, serverSeed: state.serverSeeds.current }, refill);
+    assert.deepEqual(check.mismatches, []);
+  });
+
+  it("calls off a round that can't go on and hands back what is still out", () => {
+    const state = { ...act(deal(table(), ["8", "10", "8", "7", "3", "9"]), "split"), shoe: [] };
+    assert.throws(() => reduce(state, { type: "hit", playerId: "ann" }, T0), { message: "The shoe is empty" });
+    assert.equal(isStuck(state, { type: "hit", playerId: "ann" }), true);
+    assert.equal(isStuck(state, { type: "split", playerId: "ann" }), false);
+
+    const abandoned = abandonRound(state, T0);
+    assert.equal(abandoned.phase, "LOBBY");
+    assert.equal(abandoned.turnDeadline, null);
+    assert.equal(seat(abandoned).stack, 1000);
+    assert.deepEqual(ledgerOf(abandoned, "ann").at(-1), { kind: "push", amount: 20, balance: 1000, at: T0 });
+  });
+});
+
+// ===================== Surrender =====================
+describe("surrender", () => {
+  it("gives back half the bet", () => {
+    const state = act(deal(table(), ["10", "10", "6", "7"]), "surrender");
+    assert.equal(state.phase, "RESULT");
+    assert.equal(seat(state).hands[0].result, "SURRENDER");
+    assert.equal(seat(state).stack, 995);
+  });
+
+  it("is never offered once the peek finds a dealer blackjack", () => {
+    const state = deal(table(), ["10", "K", "6", "A"]);
+    assert.equal(state.phase, "RESULT");
+    assert.equal(seat(state).hands[0].result, "LOSE");
+    assert.equal(seat(state).stack, 990);
+  });
+
+  it("is refused where the table doesn't offer it", () => {
+    const state = deal(table({ surrender: "none" }), ["10", "10", "6", "7"]);
+    assert.throws(() => reduce(state, { type: "surrender", playerId: "ann" }, T0), GameError);
+  });
+
+  it("is offered before the peek under early surrender, and beats a dealer blackjack", () => {
+    let state = deal(table({ surrender: "early" }), ["10", "K", "6", "A"]);
+    assert.equal(state.phase, "INSURANCE");
+    assert.deepEqual(legalActions(state, "ann"), ["declineInsurance", "surrender"]);
+
+    state = act(state, "surrender");
+    assert.equal(state.phase, "RESULT");
+    assert.equal(seat(state).hands[0].result, "SURRENDER");
+    assert.equal(seat(state).stack, 995);
+  });
+
+  it("can't be taken on a split hand", () => {
+    const state = act(deal(table(), ["8", "10", "8", "7", "3", "9"]), "split");
+    assert.equal(legalActions(state, "ann").includes("surrender"), false);
+  });
+});
+
+// ===================== Insurance =====================
+describe("insurance", () => {
+  it("is offered against an ace before the dealer peeks", () => {
+    const state = deal(table(), ["10", "A", "9", "K"]);
+    assert.equal(state.phase, "INSURANCE");
+    assert.equal(state.dealer.cards.length, 2);
+  });
+
+  it("pays 2:1 at the peek when the dealer has blackjack", () => {
+    const state = act(deal(table(), ["10", "A", "9", "K"]), "insurance");
+    assert.equal(seat(state).insuranceResult, "WIN");
+    assert.equal(seat(state).hands[0].result, "LOSE");
+    assert.equal(seat(state).stack, 1000);
+  });
+
+  it("is lost at the peek, before anyone plays, when the dealer has no blackjack", () => {
+    let state = act(deal(table(), ["10", "A", "9", "7"]), "insurance");
+    assert.equal(state.phase, "PLAYER");
+    assert.equal(seat(state).insuranceResult, "LOSE");
+    assert.equal(seat(state).stack, 985);
+
+    state = act(state, "stand");
+    assert.equal(seat(state).hands[0].result, "WIN");
+    assert.equal(seat(state).stack, 1005);
+  });
+});
+
+describe("even money", () => {
+  it("pays a blackjack 1:1 on the spot, whatever the hole card", () => {
+    for (const hole of ["K", "7"] as Rank[]) {
+      let state = deal(table(), ["A", "A", "K", hole]);
+      assert.deepEqual(legalActions(state, "ann"), ["declineInsurance", "evenMoney"]);
+      state = act(state, "evenMoney");
+      assert.equal(state.phase, "RESULT");
+      assert.equal(seat(state).hands[0].result, "WIN");
+      assert.equal(seat(state).stack, 1010);
+      assert.equal(ledgerOf(state, "ann").filter(e => e.kind === "payout").length, 1);
+    }
+  });
+
+  it("leaves a declined blackjack to push or pay 3:2 after the peek", () => {
+    const pushed = act(deal(table(), ["A", "A", "K", "K"]), "declineInsurance");
+    assert.equal(seat(pushed).hands[0].result, "PUSH");
+    assert.equal(seat(pushed).stack, 1000);
+
+    const paid = act(deal(table(), ["A", "A", "K", "7"]), "declineInsurance");
+    assert.equal(seat(paid).hands[0].result, "BLACKJACK");
+    assert.equal(seat(paid).stack, 1015);
+  });
+
+  it("waits for every seat's insurance decision before the peek", () => {
+    let state = deal(table({}, ["ann", "bob"]), ["10", "9", "A", "9", "9", "K"]);
+    assert.equal(state.players[state.turnIdx].id, "ann");
+    state = act(state, "insurance");
+    assert.equal(state.phase, "INSURANCE");
+    assert.equal(state.players[state.turnIdx].id, "bob");
+    assert.throws(() => reduce(state, { type: "insurance", playerId: "ann" }, T0), { message: "Not your turn" });
+
+    state = act(state, "declineInsurance", "bob");
+    assert.equal(state.phase, "RESULT");
+    assert.equal(seat(state, "ann").stack, 1000);
+    assert.equal(seat(state, "bob").stack, 990);
+  });
+});
+
+// ===================== Turn clock =====================
+describe("timeouts", () => {
+  it("starts the clock when a hand comes on turn", () => {
+    const state = deal(table(), ["10", "10", "6", "7"]);
+    assert.equal(state.turnDeadline, T0 + 20_000);
+  });
+
+  it("restarts the clock on a move that keeps the hand going", () => {
+    const state = reduce(deal(table(), ["10", "10", "2", "7", "3"]), { type: "hit", playerId: "ann" }, T0 + 5_000);
+    assert.equal(state.turnDeadline, T0 + 25_000);
+  });
+
+  it("keeps the clock running through anything that isn't a move", () => {
+    let state = deal(table(), ["10", "10", "6", "7"]);
+    state = reduce(state, { type: "lock", playerId: "ann", locked: true }, T0 + 6_000);
+    state = reduce(state, { type: "setPassword", playerId: "ann", password: "secret" }, T0 + 7_000);
+    assert.equal(state.turnDeadline, T0 + 20_000);
+    assert.doesNotThrow(() => reduce(state, { type: "timeout" }, T0 + 20_000));
+  });
+
+  it("refuses to time out a player who still has time", () => {
+    const state = deal(table(), ["10", "10", "6", "7"]);
+    assert.throws(() => reduce(state, { type: "timeout" }, T0 + 19_999), GameError);
+  });
+
+  it("stands the hand when the clock runs out", () => {
+    const state = reduce(deal(table(), ["10", "10", "6", "7"]), { type: "timeout" }, T0 + 20_000);
+    assert.equal(seat(state).hands[0].status, "Stand");
+    assert.equal(seat(state).missedTurns, 1);
+    assert.equal(state.phase, "DEALER");
+    assert.equal(state.turnDeadline, null);
+  });
+
+  it("declines insurance when the clock runs out", () => {
+    const state = advance(reduce(deal(table(), ["10", "A", "9", "7"]), { type: "timeout" }, T0 + 20_000));
+    assert.equal(state.phase, "PLAYER");
+    assert.equal(seat(state).insuranceBet, 0);
+  });
+
+  it("sits a player out after too many missed turns", () => {
+    let state = deal(table({ idleTimeouts: 2 }), ["10", "A", "6", "7"]);
+    state = advance(reduce(state, { type: "timeout" }, T0 + 20_000), T0 + 20_000);
+    assert.equal(seat(state).sittingOut, false);
+
+    state = advance(reduce(state, { type: "timeout" }, T0 + 40_000), T0 + 40_000);
+    assert.equal(seat(state).missedTurns, 2);
+    assert.equal(seat(state).sittingOut, true);
+  });
+});
+
+// ===================== Bankroll =====================
+describe("ledger", () => {
+  it("logs every debit and credit with the balance after it", () => {
+    const state = act(deal(table(), ["8", "10", "8", "7", "3", "9", "10"]), "split");
+    const settled = act(act(state, "double"), "stand");
+    assert.deepEqual(
+      ledgerOf(settled, "ann").map(e => [e.kind, e.amount, e.balance]),
+      [
+        ["buyIn", 1000, 1000],
+        ["bet", -10, 990],
+        ["split", -10, 980],
+        ["double", -10, 970],
+        ["payout", 40, 1010],
+        ["push", 10, 1020],
+      ]
+    );
+  });
+
+  it("tops a busted player back up to the buy-in, up to the table's limit", () => {
+    let state = act(deal(table({ buyIn: 10, maxRebuys: 1 }), ["10", "10", "6", "8"]), "stand");
+    state = reduce(state, { type: "reset" }, T0);
+    assert.equal(seat(state).stack, 0);
+
+    state = reduce(state, { type: "rebuy", playerId: "ann" }, T0);
+    assert.equal(seat(state).stack, 10);
+    assert.equal(seat(state).rebuys, 1);
+    assert.deepEqual(ledgerOf(state, "ann").at(-1), { kind: "rebuy", amount: 10, balance: 10, at: T0 });
+
+    state = reduce(state, { type: "bet", playerId: "ann", value: 10 }, T0);
+    state = reduce(state, { type: "ready", playerId: "ann", ready: true }, T0);
+    state = reduce(act(deal(state, ["10", "10", "6", "8"]), "stand"), { type: "reset" }, T0);
+    assert.throws(() => reduce(state, { type: "rebuy", playerId: "ann" }, T0), { message: "No more than 1 rebuys at this table" });
+  });
+
+  it("sits a returning player down with the bankroll they left with", () => {
+    let state = table();
+    const bankroll = bankrollOf(state, "ann")!;
+    assert.equal(bankroll.stack, 1000);
+
+    state = reduce(state, { type: "leave", playerId: "ann" }, T0);
+    state = reduce(state, { type: "join", playerId: "ann", name: "ann", bankroll }, T0);
+    assert.equal(seat(state).stack, 1000);
+    assert.deepEqual(ledgerOf(state, "ann"), bankroll.ledger);
+  });
+});
+
+// ===================== Fairness =====================
+describe("client seeds", () => {
+  it("go into the next shuffle", () => {
+    let state = reduce(table(), { type: "clientSeed", playerId: "ann", seed: "lucky" }, T0);
+    state = reduce(state, { type: "start", playerId: "ann" }, T0);
+    assert.equal(state.phase, "SHUFFLING");
+    state = advance(state);
+    assert.equal(state.fairness.current?.clientSeed, "lucky");
+  });
+
+  it("can't be changed mid-round", () => {
+    const state = deal(table(), ["10", "10", "6", "7"]);
+    assert.throws(() => reduce(state, { type: "clientSeed", playerId: "ann", seed: "lucky" }, T0 + 5_000), {
+      message: "Client seeds can only be changed between rounds",
+    });
+  });
+});
+
+// ===================== Side bets =====================
+describe("side bets", () => {
+  const sideBet = (state: TableState, kind: SideBetKind, value = 5) =>
+    reduce(state, { type: "sideBet", playerId: "ann", kind, value }, T0);
+
+  it("pays a perfect pair off the first two cards, before anyone acts", () => {
+    const state = deal(sideBet(table(), "perfectPairs"), [card("8", "♥"), "10", card("8", "♥"), "7"]);
+    assert.equal(state.phase, "PLAYER");
+    assert.deepEqual(seat(state).sideBets.perfectPairs, { stake: 5, outcome: "Perfect pair", win: 125 });
+    assert.equal(seat(state).stack, 1115);
+  });
+
+  it("pays a mixed pair at its own rate", () => {
+    const state = deal(sideBet(table(), "perfectPairs"), [card("8", "♥"), "10", card("8", "♣"), "7"]);
+    assert.equal(seat(state).sideBets.perfectPairs?.outcome, "Mixed pair");
+    assert.equal(seat(state).stack, 1020);
+  });
+
+  it("pays 21+3 on the two cards and the dealer's upcard", () => {
+    const state = deal(sideBet(table(), "twentyOnePlus3"), [card("2", "♦"), card("K", "♦"), card("9", "♦"), "7"]);
+    assert.deepEqual(seat(state).sideBets.twentyOnePlus3, { stake: 5, outcome: "Flush", win: 25 });
+    assert.equal(seat(state).stack, 1015);
+  });
+
+  it("keeps a losing stake", () => {
+    const state = deal(sideBet(table(), "twentyOnePlus3"), [card("2", "♦"), card("K", "♣"), card("9", "♦"), "7"]);
+    assert.deepEqual(seat(state).sideBets.twentyOnePlus3, { stake: 5, outcome: null, win: 0 });
+    assert.equal(seat(state).stack, 985);
+    assert.deepEqual(ledgerOf(state, "ann").at(-1), { kind: "sideBet", amount: -5, balance: 985, at: T0 });
+  });
+
+  it("refuses a side bet the room doesn't offer, or one over the limit", () => {
+    assert.throws(() => sideBet(table({ perfectPairs: null }), "perfectPairs"), { message: "Perfect Pairs is not offered at this table" });
+    assert.throws(() => sideBet(table({ sideBetMax: 10 }), "perfectPairs", 15), { message: "Side bet maximum is $10" });
+  });
+});
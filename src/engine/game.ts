@@ -0,0 +1,940 @@
+import { calculateValue, cardValue, isBlackjack, isBust, isSoft, isTenValue } from "./cards.ts";
+import { cleanClientSeed, drawPosition, randomSeed, sha256, shoeFromSeeds } from "./fairness.ts";
+import { blackjackWin, canDoubleOnTotal, DEFAULT_RULES, normalizeRules } from "./rules.ts";
+import { offersSideBet, SIDE_BET_KINDS, SIDE_BET_NAMES, sideBetHit } from "./sideBets.ts";
+import type {
+  Action,
+  Bankroll,
+  Card,
+  GameState,
+  Hand,
+  HostAction,
+  LedgerKind,
+  Phase,
+  Player,
+  PlayerAction,
+  PlayerActionType,
+  Rank,
+  Suit,
+  SystemAction,
+  TableRules,
+  TableState,
+} from "./types.ts";
+
+// ===================== Config =====================
+export const PENETRATION = 0.75;
+/** Oldest ledger entries are dropped past this, per player. */
+export const LEDGER_LIMIT = 500;
+/** Finished shoes kept, with their seeds, for verification. */
+const REVEALED_LIMIT = 5;
+const MAX_NAME_LENGTH = 12;
+
+/** Why an action was refused, for clients that want to do more than show the message. */
+export type GameErrorCode =
+  | "ROOM_FULL"
+  | "ROOM_LOCKED"
+  | "WRONG_PASSWORD"
+  | "NOT_HOST"
+  | "INSUFFICIENT_STACK"
+  | "NOT_YOUR_TURN"
+  | "INVALID_BET"
+  | "GAME_RULE";
+
+/** Thrown by `reduce` when an action is not legal in the current state. */
+export class GameError extends Error {
+  name = "GameError";
+  readonly code: GameErrorCode;
+
+  constructor(message: string, code: GameErrorCode = "GAME_RULE") {
+    super(message);
+    this.code = code;
+  }
+}
+
+/** `serverSeed` is committed to for the first shoe; it only needs to be passed in to replay a table. */
+export function createTable(code: string, rules: Partial<TableRules> = DEFAULT_RULES, serverSeed = randomSeed()): TableState {
+  return {
+    code,
+    players: [],
+    dealer: { cards: [] },
+    phase: "LOBBY",
+    turnIdx: -1,
+    handIdx: 0,
+    rules: normalizeRules(rules),
+    turnDeadline: null,
+    hostId: null,
+    locked: false,
+    hasPassword: false,
+    fairness: { current: null, nextCommitment: sha256(serverSeed), clientSeeds: {}, revealed: [] },
+    shoe: [],
+    shoeNo: 0,
+    password: null,
+    ledgers: {},
+    serverSeeds: { current: null, next: serverSeed },
+  };
+}
+
+// ===================== Reducer =====================
+/** `now` stamps ledger entries and the turn clock. */
+export function reduce(state: TableState, action: Action, now = Date.now()): TableState {
+  const next = structuredClone(state);
+  switch (action.type) {
+    case "shuffle":
+    case "deal":
+    case "dealerDraw":
+    case "settle":
+    case "reset":
+    case "timeout":
+      applySystemAction(next, action, now);
+      break;
+    default:
+      applyPlayerAction(next, action, now);
+  }
+  updateTurnClock(state, next, action, now);
+  return next;
+}
+
+const turnKey = (state: GameState) =>
+  isOnClock(state) ? `${state.phase}:${state.players[state.turnIdx]?.id}:${state.handIdx}` : null;
+const isOnClock = (state: GameState) => (state.phase === "PLAYER" || state.phase === "INSURANCE") && state.turnIdx >= 0;
+
+/** Decisions on the hand in play. Nothing else the player on turn sends buys them more time. */
+const TURN_MOVES: Action["type"][] = ["hit", "stand", "double", "split", "surrender", "insurance", "declineInsurance", "evenMoney"];
+
+/** Restarts the clock for every new decision: a new seat or hand on turn, or a move that keeps the same hand going. */
+function updateTurnClock(prev: TableState, next: TableState, action: Action, now: number) {
+  const key = turnKey(next);
+  if (key === null) {
+    next.turnDeadline = null;
+    return;
+  }
+  const movedOnTurn =
+    TURN_MOVES.includes(action.type) && "playerId" in action && action.playerId === next.players[next.turnIdx]?.id;
+  if (key !== turnKey(prev) || movedOnTurn) next.turnDeadline = now + next.rules.turnSeconds * 1000;
+}
+
+function applyPlayerAction(state: TableState, action: PlayerAction, now: number) {
+  if (action.type === "join") {
+    join(state, action, now);
+    return;
+  }
+
+  const player = findPlayer(state, action.playerId);
+  if (action.type === "leave") {
+    leave(state, player.id, now);
+    return;
+  }
+  if (isHostAction(action)) {
+    applyHostAction(state, action, now);
+    return;
+  }
+  if (action.type === "clientSeed") {
+    // Seeds are read at the shuffle, which only happens as a round starts.
+    if (state.phase !== "LOBBY") throw new GameError("Client seeds can only be changed between rounds");
+    const seed = cleanClientSeed(action.seed);
+    if (seed) state.fairness.clientSeeds[player.id] = seed;
+    else delete state.fairness.clientSeeds[player.id];
+    return;
+  }
+  // Doing anything at all shows the player is back.
+  player.missedTurns = 0;
+  if (action.type === "ready" || action.type === "bet") {
+    player.sittingOut = false;
+    if (player.status === SITTING_OUT_IDLE) player.status = "";
+  }
+
+  if (!legalActions(state, player.id).includes(action.type)) {
+    throw explainIllegal(state, player, action.type);
+  }
+  const hand = player.hands[state.handIdx];
+
+  switch (action.type) {
+    case "ready":
+      player.ready = action.ready;
+      break;
+
+    case "bet":
+      if (!Number.isInteger(action.value) || action.value <= 0) throw new GameError("Invalid bet", "INVALID_BET");
+      if (action.value > player.stack) throw new GameError("Not enough chips", "INSUFFICIENT_STACK");
+      if (player.bet + action.value > state.rules.maxBet) {
+        throw new GameError(`Table maximum is $${state.rules.maxBet}`, "INVALID_BET");
+      }
+      player.stack -= action.value;
+      player.bet += action.value;
+      break;
+
+    case "start":
+      beginRound(state, now);
+      break;
+
+    case "sideBet": {
+      if (!offersSideBet(state.rules, action.kind)) throw new GameError(`${SIDE_BET_NAMES[action.kind]} is not offered at this table`, "INVALID_BET");
+      if (!Number.isInteger(action.value) || action.value <= 0) throw new GameError("Invalid bet", "INVALID_BET");
+      if (action.value > player.stack) throw new GameError("Not enough chips", "INSUFFICIENT_STACK");
+      const stake = player.sideBets[action.kind]?.stake ?? 0;
+      if (stake + action.value > state.rules.sideBetMax) {
+        throw new GameError(`Side bet maximum is $${state.rules.sideBetMax}`, "INVALID_BET");
+      }
+      player.stack -= action.value;
+      player.sideBets[action.kind] = { stake: stake + action.value };
+      break;
+    }
+
+    case "rebuy": {
+      const topUp = state.rules.buyIn - player.stack;
+      player.rebuys++;
+      player.stack = state.rules.buyIn;
+      record(state, player, "rebuy", topUp, now);
+      break;
+    }
+
+    case "insurance": {
+      const cost = Math.floor(player.bet / 2);
+      player.stack -= cost;
+      record(state, player, "insurance", -cost, now);
+      player.insuranceBet = cost;
+      nextInsuranceTurn(state, now);
+      break;
+    }
+
+    case "declineInsurance":
+      nextInsuranceTurn(state, now);
+      break;
+
+    case "evenMoney": {
+      // A blackjack against an ace is paid 1:1 on the spot, whatever the hole card turns out to be.
+      const natural = player.hands[0];
+      player.stack += natural.bet * 2;
+      record(state, player, "payout", natural.bet * 2, now);
+      natural.result = "WIN";
+      natural.status = `Even money +$${natural.bet}`;
+      nextInsuranceTurn(state, now);
+      break;
+    }
+
+    case "hit":
+      hand.cards.push(draw(state));
+      if (isBust(hand.cards)) finishHand(state, hand, "Bust");
+      else if (calculateValue(hand.cards) === 21) finishHand(state, hand, "21");
+      break;
+
+    case "stand":
+      finishHand(state, hand, "Stand");
+      break;
+
+    case "double":
+      player.stack -= hand.bet;
+      record(state, player, "double", -hand.bet, now);
+      hand.bet *= 2;
+      hand.cards.push(draw(state));
+      finishHand(state, hand, isBust(hand.cards) ? "Bust" : "Doubled");
+      break;
+
+    case "split":
+      split(state, player, hand, now);
+      break;
+
+    case "surrender": {
+      // Early surrender happens in the pre-peek window, before any hand is on turn.
+      const target = state.phase === "INSURANCE" ? player.hands[0] : hand;
+      target.result = "SURRENDER";
+      target.status = "Surrendered";
+      target.done = true;
+      if (state.phase === "INSURANCE") nextInsuranceTurn(state, now);
+      else nextPlayerTurn(state);
+      break;
+    }
+  }
+}
+
+// ===================== Host actions =====================
+const HOST_ACTIONS: HostAction["type"][] = ["kick", "lock", "setPassword", "moveSeat", "forceStart", "transferHost"];
+const isHostAction = (action: PlayerAction): action is HostAction =>
+  (HOST_ACTIONS as string[]).includes(action.type);
+
+export const isHost = (state: GameState, playerId: string | null) => playerId !== null && state.hostId === playerId;
+
+/** A host can start the round as long as one player is ready with a table-minimum bet. */
+export const canForceStart = (state: GameState) =>
+  state.phase === "LOBBY" && state.players.some(p => p.ready && p.bet >= state.rules.minBet);
+
+function applyHostAction(state: TableState, action: HostAction, now: number) {
+  if (!isHost(state, action.playerId)) throw new GameError("Only the host can do that", "NOT_HOST");
+
+  switch (action.type) {
+    case "kick":
+      if (action.targetId === action.playerId) throw new GameError("The host cannot kick themselves");
+      leave(state, findPlayer(state, action.targetId).id, now);
+      break;
+
+    case "lock":
+      state.locked = action.locked;
+      break;
+
+    case "setPassword": {
+      const password = action.password?.trim() || null;
+      state.password = password;
+      state.hasPassword = password !== null;
+      break;
+    }
+
+    case "moveSeat": {
+      if (state.phase !== "LOBBY") throw new GameError("Seats can only be moved between rounds");
+      const from = state.players.indexOf(findPlayer(state, action.targetId));
+      const to = Math.max(0, Math.min(state.players.length - 1, Math.floor(action.seat)));
+      const [moved] = state.players.splice(from, 1);
+      state.players.splice(to, 0, moved);
+      break;
+    }
+
+    case "forceStart":
+      if (!canForceStart(state)) {
+        throw new GameError(`Nobody is ready with a bet of at least $${state.rules.minBet}`);
+      }
+      // Whoever isn't ready with a full bet sits this round out and gets their chips back.
+      for (const p of state.players) {
+        if (p.ready && p.bet >= state.rules.minBet) continue;
+        p.stack += p.bet;
+        p.bet = 0;
+      }
+      beginRound(state, now);
+      break;
+
+    case "transferHost":
+      state.hostId = findPlayer(state, action.targetId).id;
+      break;
+  }
+}
+
+function applySystemAction(state: TableState, action: SystemAction, now: number) {
+  if (action.type === "timeout") {
+    timeOut(state, now);
+    return;
+  }
+  const expected = autoActionType(state);
+  if (action.type !== expected) throw new GameError(`Cannot ${action.type} during ${state.phase}`);
+
+  switch (action.type) {
+    case "shuffle":
+      shuffle(state, action.nextServerSeed);
+      state.phase = "DEALING";
+      clearHands(state);
+      break;
+
+    case "deal": {
+      const target = nextDealTarget(state);
+      if (target) target.cards.push(draw(state));
+      if (!nextDealTarget(state)) afterDeal(state, now);
+      break;
+    }
+
+    case "dealerDraw":
+      state.dealer.cards.push(draw(state));
+      break;
+
+    case "settle":
+      settle(state, now);
+      break;
+
+    case "reset":
+      resetToLobby(state);
+      break;
+  }
+}
+
+// ===================== Legal actions =====================
+/** Actions `playerId` may take right now. Seat actions (`join`, `leave`) are always handled separately. */
+export function legalActions(state: GameState, playerId: string): PlayerActionType[] {
+  const player = state.players.find(p => p.id === playerId);
+  if (!player) return [];
+  const isTurn = state.players[state.turnIdx]?.id === playerId;
+
+  switch (state.phase) {
+    case "LOBBY": {
+      const actions: PlayerActionType[] = ["ready"];
+      if (player.stack > 0 && player.bet < state.rules.maxBet) actions.push("bet");
+      if (canStart(state)) actions.push("start");
+      if (canRebuy(state, player)) actions.push("rebuy");
+      if (player.stack > 0 && SIDE_BET_KINDS.some(kind => offersSideBet(state.rules, kind))) actions.push("sideBet");
+      return actions;
+    }
+    case "INSURANCE": {
+      if (!isTurn) return [];
+      const actions: PlayerActionType[] = ["declineInsurance"];
+      const upcard = state.dealer.cards[0];
+      if (upcard?.rank === "A") {
+        if (isNatural(player.hands[0])) actions.push("evenMoney");
+        else if (player.stack >= Math.floor(player.bet / 2)) actions.push("insurance");
+      }
+      if (state.rules.surrender === "early" && canSurrender(player, player.hands[0])) actions.push("surrender");
+      return actions;
+    }
+    case "PLAYER": {
+      const hand = player.hands[state.handIdx];
+      if (!isTurn || !hand || hand.done) return [];
+      const actions: PlayerActionType[] = [];
+      if (!isOneCardHand(state.rules, hand)) {
+        actions.push("hit", "stand");
+        if (canDouble(state.rules, player, hand)) actions.push("double");
+      } else {
+        actions.push("stand");
+      }
+      if (canSplit(state.rules, player, hand)) actions.push("split");
+      if (state.rules.surrender !== "none" && canSurrender(player, hand)) actions.push("surrender");
+      return actions;
+    }
+    default:
+      return [];
+  }
+}
+
+/** Everyone who isn't sitting out is ready with a bet, and at least one player is in. */
+export function canStart(state: GameState): boolean {
+  const active = state.players.filter(p => !p.sittingOut);
+  return state.phase === "LOBBY" && active.length > 0 && active.every(p => p.ready && p.bet >= state.rules.minBet);
+}
+
+/** Rebuys are for players who can no longer cover the table minimum, up to the room's limit. */
+const canRebuy = (state: GameState, player: Player) =>
+  player.bet === 0 && player.stack < state.rules.minBet && player.rebuys < state.rules.maxRebuys;
+
+const canDouble = (rules: TableRules, player: Player, hand: Hand) =>
+  hand.cards.length === 2 &&
+  player.stack >= hand.bet &&
+  (!hand.split || rules.doubleAfterSplit) &&
+  canDoubleOnTotal(rules, calculateValue(hand.cards));
+
+function canSplit(rules: TableRules, player: Player, hand: Hand): boolean {
+  const [first, second] = hand.cards;
+  if (hand.cards.length !== 2 || cardValue(first) !== cardValue(second)) return false;
+  if (player.hands.length >= rules.maxHands || player.stack < hand.bet) return false;
+  if (first.rank === "A" && hand.split && !rules.resplitAces) return false;
+  return true;
+}
+
+/** Only the original two-card hand can be surrendered, never a natural or a split hand. */
+const canSurrender = (player: Player, hand?: Hand) =>
+  !!hand && player.hands.length === 1 && hand.cards.length === 2 && !hand.done && !isNatural(hand);
+
+/** A split ace under the one-card rule may only stand (or re-split another ace). */
+const isOneCardHand = (rules: TableRules, hand: Hand) =>
+  hand.split && hand.cards[0]?.rank === "A" && rules.splitAcesOneCard;
+
+function explainIllegal(state: GameState, player: Player, type: PlayerActionType): GameError {
+  const isTurn = state.players[state.turnIdx]?.id === player.id;
+  const hand = player.hands[state.handIdx];
+  if ((state.phase === "PLAYER" || state.phase === "INSURANCE") && !isTurn) {
+    return new GameError("Not your turn", "NOT_YOUR_TURN");
+  }
+  if (type === "start" && state.phase === "LOBBY") {
+    return new GameError(`Everyone must be ready with a bet of at least $${state.rules.minBet}`);
+  }
+  if (type === "double" && hand && state.phase === "PLAYER") {
+    if (hand.cards.length !== 2) return new GameError("You can only double on your first two cards");
+    if (hand.split && !state.rules.doubleAfterSplit) return new GameError("No doubling after a split at this table");
+    if (!canDoubleOnTotal(state.rules, calculateValue(hand.cards))) {
+      return new GameError(`Doubling is only allowed on ${state.rules.doubleOn}`);
+    }
+    return new GameError("Not enough chips to double", "INSUFFICIENT_STACK");
+  }
+  if (type === "split" && hand && state.phase === "PLAYER") {
+    if (hand.cards.length !== 2 || cardValue(hand.cards[0]) !== cardValue(hand.cards[1])) return new GameError("You can only split a pair");
+    if (player.hands.length >= state.rules.maxHands) return new GameError(`No more than ${state.rules.maxHands} hands`);
+    if (player.stack < hand.bet) return new GameError("Not enough chips to split", "INSUFFICIENT_STACK");
+    return new GameError("Split aces cannot be split again");
+  }
+  if (type === "surrender") {
+    if (state.rules.surrender === "none") return new GameError("Surrender is not offered at this table");
+    if (state.phase === "INSURANCE") return new GameError("Early surrender is not offered at this table");
+    return new GameError("You can only surrender your first two cards");
+  }
+  if (type === "hit" && hand && isOneCardHand(state.rules, hand)) return new GameError("Split aces receive one card only");
+  if (type === "insurance" && state.phase === "INSURANCE") {
+    if (state.dealer.cards[0]?.rank !== "A") return new GameError("Insurance is only offered against an ace");
+    if (isNatural(player.hands[0])) return new GameError("With a blackjack you can take even money instead");
+    return new GameError("Not enough chips for insurance", "INSUFFICIENT_STACK");
+  }
+  if (type === "evenMoney") return new GameError("Even money is only offered on a blackjack against an ace");
+  if (type === "stand" && state.phase === "INSURANCE") return new GameError("Take or decline insurance first");
+  if (type === "rebuy" && state.phase === "LOBBY") {
+    if (player.rebuys >= state.rules.maxRebuys) {
+      return new GameError(state.rules.maxRebuys > 0 ? `No more than ${state.rules.maxRebuys} rebuys at this table` : "No rebuys at this table");
+    }
+    return new GameError(`You can rebuy once you're below the $${state.rules.minBet} minimum`);
+  }
+  if (type === "sideBet" && state.phase === "LOBBY") {
+    return player.stack > 0 ? new GameError("No side bets at this table", "INVALID_BET") : new GameError("Not enough chips", "INSUFFICIENT_STACK");
+  }
+  if (type === "bet" && state.phase === "LOBBY") {
+    return player.stack > 0
+      ? new GameError(`Table maximum is $${state.rules.maxBet}`, "INVALID_BET")
+      : new GameError("Not enough chips", "INSUFFICIENT_STACK");
+  }
+  return new GameError(`Not allowed during ${state.phase}`);
+}
+
+// ===================== Automatic steps =====================
+/** The step the table takes next without player input, or `null` while it waits on a player. */
+export function autoAction(state: TableState, nextServerSeed: () => string = randomSeed): SystemAction | null {
+  const type = autoActionType(state);
+  if (type === "shuffle") return { type, nextServerSeed: nextServerSeed() };
+  return type ? { type } : null;
+}
+
+function autoActionType(state: TableState): SystemAction["type"] | null {
+  switch (state.phase) {
+    case "SHUFFLING":
+      return "shuffle";
+    case "DEALING":
+      return "deal";
+    case "DEALER":
+      return dealerMustDraw(state) ? "dealerDraw" : "settle";
+    case "RESULT":
+      return "reset";
+    default:
+      return null;
+  }
+}
+
+function dealerMustDraw(state: TableState): boolean {
+  const dealer = state.dealer.cards;
+  if (isBlackjack(dealer)) return false;
+  const live = state.players
+    .flatMap(p => p.hands)
+    .filter(h => !isBust(h.cards) && !isNatural(h) && h.result !== "SURRENDER");
+  if (live.length === 0) return false;
+  const value = calculateValue(dealer);
+  return value < 17 || (value === 17 && state.rules.dealerHitsSoft17 && isSoft(dealer));
+}
+
+// ===================== Round flow =====================
+function beginRound(state: TableState, now: number) {
+  // Bets left the stack when they were placed; they count as spent once the round is on.
+  // Side bets ride along with a main bet only, so a seat sitting out gets them back.
+  for (const p of state.players) {
+    const sideStakes = Object.values(p.sideBets).reduce((sum, side) => sum + side.stake, 0);
+    if (p.bet === 0) {
+      p.stack += sideStakes;
+      p.sideBets = {};
+      continue;
+    }
+    record(state, p, "bet", -p.bet, now);
+    if (sideStakes > 0) record(state, p, "sideBet", -sideStakes, now);
+  }
+  state.phase = needsShuffle(state) ? "SHUFFLING" : "DEALING";
+  if (state.phase === "DEALING") clearHands(state);
+}
+
+/**
+ * Reveals the finished shoe's server seed, shuffles the committed one with the players' client
+ * seeds, and commits to the next server seed.
+ */
+function shuffle(state: TableState, nextServerSeed: string) {
+  const { fairness, serverSeeds } = state;
+  if (fairness.current && serverSeeds.current) {
+    fairness.revealed = [{ ...fairness.current, serverSeed: serverSeeds.current }, ...fairness.revealed].slice(0, REVEALED_LIMIT);
+  }
+
+  state.shoeNo++;
+  fairness.current = {
+    shoeNo: state.shoeNo,
+    decks: state.rules.decks,
+    commitment: fairness.nextCommitment,
+    clientSeed: state.players.map(p => fairness.clientSeeds[p.id]).filter(Boolean).join(":"),
+    serverSeed: null,
+  };
+  state.shoe = shoeFromSeeds(serverSeeds.next, fairness.current);
+  state.serverSeeds = { current: serverSeeds.next, next: nextServerSeed };
+  fairness.nextCommitment = sha256(nextServerSeed);
+}
+
+/**
+ * Reshuffle at the cut card, or earlier if a short shoe might not last the round: about six cards
+ * for each seat's first hand and the dealer, and three more for every split a seat could make.
+ */
+function needsShuffle(state: TableState): boolean {
+  const cutCard = state.rules.decks * 52 * (1 - PENETRATION);
+  const seatReserve = 6 + (state.rules.maxHands - 1) * 3;
+  const roundReserve = state.players.length * seatReserve + 6;
+  return state.shoe.length < Math.max(cutCard, roundReserve);
+}
+
+const isNatural = (hand: Hand) => !hand.split && isBlackjack(hand.cards);
+
+const newHand = (bet: number): Hand => ({ cards: [], bet, status: "", split: false, done: false });
+
+function clearHands(state: TableState) {
+  state.turnIdx = -1;
+  state.handIdx = 0;
+  state.dealer.cards = [];
+  for (const p of state.players) {
+    p.hands = p.bet > 0 ? [newHand(p.bet)] : [];
+    p.insuranceBet = 0;
+    delete p.insuranceResult;
+    p.status = p.bet > 0 ? "" : "Sitting out";
+  }
+}
+
+/** Two passes round the table, players first then the dealer, one card at a time. */
+function nextDealTarget(state: TableState): { cards: Card[] } | null {
+  const hands = state.players.flatMap(p => p.hands);
+  for (const round of [1, 2]) {
+    const hand = hands.find(h => h.cards.length < round);
+    if (hand) return hand;
+    if (state.dealer.cards.length < round) return state.dealer;
+  }
+  return null;
+}
+
+function afterDeal(state: TableState, now: number) {
+  settleSideBets(state, now);
+  for (const hand of state.players.flatMap(p => p.hands)) {
+    if (isNatural(hand)) {
+      hand.status = "Blackjack!";
+      hand.done = true;
+    }
+  }
+  const upcard = state.dealer.cards[0];
+  const earlySurrender = state.rules.surrender === "early" && isTenValue(upcard);
+  if (upcard?.rank === "A" || earlySurrender) {
+    state.phase = "INSURANCE";
+    state.turnIdx = -1;
+    nextInsuranceTurn(state, now);
+    return;
+  }
+  peekOrPlay(state, now);
+}
+
+function nextInsuranceTurn(state: TableState, now: number) {
+  const next = nextSeat(state, state.turnIdx, p => p.hands.length > 0);
+  if (next === -1) {
+    peekOrPlay(state, now);
+    return;
+  }
+  state.turnIdx = next;
+}
+
+/** Dealer checks the hole card under an Ace or ten; a blackjack ends the round immediately. */
+function peekOrPlay(state: TableState, now: number) {
+  const upcard = state.dealer.cards[0];
+  state.turnIdx = -1;
+  state.handIdx = 0;
+  settleInsurance(state, now);
+  if ((upcard?.rank === "A" || isTenValue(upcard)) && isBlackjack(state.dealer.cards)) {
+    state.phase = "DEALER";
+    return;
+  }
+  state.phase = "PLAYER";
+  nextPlayerTurn(state);
+}
+
+function finishHand(state: TableState, hand: Hand, status: string) {
+  hand.status = status;
+  hand.done = true;
+  nextPlayerTurn(state);
+}
+
+/** Moves to the next open hand: later hands of the same player first, then the following seats. */
+function nextPlayerTurn(state: TableState) {
+  const current = state.players[state.turnIdx];
+  const sameSeat = current ? current.hands.findIndex((h, i) => i > state.handIdx && !h.done) : -1;
+  if (sameSeat !== -1) {
+    state.handIdx = sameSeat;
+    return;
+  }
+
+  const next = nextSeat(state, state.turnIdx, p => p.hands.some(h => !h.done));
+  if (next === -1) {
+    state.phase = "DEALER";
+    state.turnIdx = -1;
+    state.handIdx = 0;
+    return;
+  }
+  state.turnIdx = next;
+  state.handIdx = state.players[next].hands.findIndex(h => !h.done);
+}
+
+function split(state: TableState, player: Player, hand: Hand, now: number) {
+  const [first, second] = hand.cards;
+  const splitHand: Hand = { ...newHand(hand.bet), cards: [second], split: true };
+  player.stack -= hand.bet;
+  record(state, player, "split", -hand.bet, now);
+  hand.cards = [first];
+  hand.split = true;
+  player.hands.splice(state.handIdx + 1, 0, splitHand);
+
+  for (const h of [hand, splitHand]) {
+    h.cards.push(draw(state));
+    if (calculateValue(h.cards) === 21) {
+      h.status = "21";
+      h.done = true;
+    } else if (isOneCardHand(state.rules, h) && !canSplit(state.rules, player, h)) {
+      h.status = "Stand";
+      h.done = true;
+    }
+  }
+  if (hand.done) nextPlayerTurn(state);
+}
+
+/** Pays side bets off the first two cards and the dealer's upcard, before any decision is made. */
+function settleSideBets(state: TableState, now: number) {
+  const upcard = state.dealer.cards[0];
+  for (const p of state.players) {
+    const cards = p.hands[0]?.cards ?? [];
+    for (const kind of SIDE_BET_KINDS) {
+      const side = p.sideBets[kind];
+      if (!side) continue;
+      const hit = sideBetHit(kind, state.rules, cards, upcard);
+      side.outcome = hit?.name ?? null;
+      side.win = hit ? side.stake * hit.pays : 0;
+      if (hit) {
+        p.stack += side.stake + side.win;
+        record(state, p, "payout", side.stake + side.win, now);
+      }
+    }
+  }
+}
+
+/** Insurance is decided by the peek: it pays 2:1 on a dealer blackjack and is lost otherwise. */
+function settleInsurance(state: TableState, now: number) {
+  const dealerBlackjack = isBlackjack(state.dealer.cards);
+  for (const p of state.players) {
+    if (!p.insuranceBet) continue;
+    p.insuranceResult = dealerBlackjack ? "WIN" : "LOSE";
+    if (dealerBlackjack) {
+      p.stack += p.insuranceBet * 3;
+      record(state, p, "payout", p.insuranceBet * 3, now);
+    }
+  }
+}
+
+function settle(state: TableState, now: number) {
+  const dealerValue = calculateValue(state.dealer.cards);
+  const dealerBlackjack = isBlackjack(state.dealer.cards);
+
+  for (const p of state.players) {
+    for (const hand of p.hands) {
+      const value = calculateValue(hand.cards);
+      // Only an even-money blackjack is won before the dealer plays, and it has been paid already.
+      if (hand.result === "WIN") continue;
+      if (hand.result === "SURRENDER") {
+        const refund = Math.floor(hand.bet / 2);
+        hand.status = `Surrender -$${hand.bet - refund}`;
+        p.stack += refund;
+        record(state, p, "surrender", refund, now);
+      } else if (value > 21) {
+        hand.result = "BUST";
+        hand.status = `Bust -$${hand.bet}`;
+      } else if (isNatural(hand) && !dealerBlackjack) {
+        const win = blackjackWin(state.rules, hand.bet);
+        hand.result = "BLACKJACK";
+        hand.status = `Blackjack! +$${win}`;
+        p.stack += hand.bet + win;
+        record(state, p, "payout", hand.bet + win, now);
+      } else if (dealerBlackjack && !isNatural(hand)) {
+        hand.result = "LOSE";
+        hand.status = `Dealer Blackjack -$${hand.bet}`;
+      } else if (dealerValue > 21 || value > dealerValue) {
+        hand.result = "WIN";
+        hand.status = `Win +$${hand.bet}`;
+        p.stack += hand.bet * 2;
+        record(state, p, "payout", hand.bet * 2, now);
+      } else if (value === dealerValue) {
+        hand.result = "PUSH";
+        hand.status = "Push";
+        p.stack += hand.bet;
+        record(state, p, "push", hand.bet, now);
+      } else {
+        hand.result = "LOSE";
+        hand.status = `Lose -$${hand.bet}`;
+      }
+    }
+  }
+
+  state.phase = "RESULT";
+  state.turnIdx = -1;
+  state.handIdx = 0;
+}
+
+/**
+ * Calls off a round the host can't take any further: every wager still on the table goes back to
+ * its player and the table returns to the lobby.
+ */
+export function abandonRound(state: TableState, now = Date.now()): TableState {
+  const next = structuredClone(state);
+  for (const p of next.players) {
+    // An even-money blackjack has been paid already; everything else is still out.
+    let refund = p.hands.reduce((sum, hand) => sum + (hand.result === "WIN" ? 0 : hand.bet), 0);
+    if (p.insuranceBet && !p.insuranceResult) refund += p.insuranceBet;
+    for (const side of Object.values(p.sideBets)) {
+      if (side.outcome === undefined) refund += side.stake;
+    }
+    if (refund === 0) continue;
+    p.stack += refund;
+    record(next, p, "push", refund, now);
+  }
+  resetToLobby(next);
+  next.turnDeadline = null;
+  return next;
+}
+
+function resetToLobby(state: TableState) {
+  state.phase = "LOBBY";
+  state.turnIdx = -1;
+  state.handIdx = 0;
+  state.dealer.cards = [];
+  for (const p of state.players) {
+    p.hands = [];
+    p.bet = 0;
+    p.insuranceBet = 0;
+    delete p.insuranceResult;
+    p.ready = false;
+    p.sideBets = {};
+    p.status = p.sittingOut ? SITTING_OUT_IDLE : "";
+  }
+}
+
+const SITTING_OUT_IDLE = "Sitting out (idle)";
+
+/** The player on turn let the clock run out: they stand, or decline insurance, and may be sat out. */
+function timeOut(state: TableState, now: number) {
+  const player = state.players[state.turnIdx];
+  if (!isOnClock(state) || !player || state.turnDeadline === null || now < state.turnDeadline) {
+    throw new GameError("Nobody is out of time");
+  }
+
+  player.missedTurns++;
+  if (player.missedTurns >= state.rules.idleTimeouts) player.sittingOut = true;
+
+  if (state.phase === "INSURANCE") nextInsuranceTurn(state, now);
+  else finishHand(state, player.hands[state.handIdx], "Stand");
+}
+
+// ===================== Seats =====================
+function join(state: TableState, { playerId, name, password, bankroll }: Extract<PlayerAction, { type: "join" }>, now: number) {
+  const trimmed = name.trim().slice(0, MAX_NAME_LENGTH);
+  if (!trimmed) throw new GameError("Enter your name!");
+  if (state.players.some(p => p.id === playerId)) throw new GameError("Already seated");
+  if (state.players.length >= state.rules.maxSeats) throw new GameError("Room is full", "ROOM_FULL");
+  if (state.locked) throw new GameError("The host has locked this room", "ROOM_LOCKED");
+  if (state.password !== null && password !== state.password) {
+    throw new GameError(password ? "Wrong room password" : "This room needs a password", "WRONG_PASSWORD");
+  }
+
+  state.hostId ??= playerId;
+  const player: Player = {
+    id: playerId,
+    name: trimmed,
+    stack: bankroll?.stack ?? state.rules.buyIn,
+    bet: 0,
+    insuranceBet: 0,
+    ready: false,
+    hands: [],
+    status: state.phase === "LOBBY" ? "" : "Waiting for next round",
+    missedTurns: 0,
+    sittingOut: false,
+    rebuys: bankroll?.rebuys ?? 0,
+    sideBets: {},
+  };
+  state.players.push(player);
+  state.ledgers[playerId] = bankroll?.ledger.slice(-LEDGER_LIMIT) ?? [];
+  if (!bankroll) record(state, player, "buyIn", player.stack, now);
+}
+
+function leave(state: TableState, playerId: string, now: number) {
+  const idx = state.players.findIndex(p => p.id === playerId);
+  state.players.splice(idx, 1);
+  delete state.ledgers[playerId];
+  delete state.fairness.clientSeeds[playerId];
+  if (state.hostId === playerId) state.hostId = state.players[0]?.id ?? null;
+
+  if (state.phase !== "INSURANCE" && state.phase !== "PLAYER") return;
+  if (idx < state.turnIdx) {
+    state.turnIdx--;
+  } else if (idx === state.turnIdx) {
+    // Step back onto the previous seat, whose hands are all finished, and move on from there.
+    state.turnIdx--;
+    if (state.phase === "INSURANCE") nextInsuranceTurn(state, now);
+    else nextPlayerTurn(state);
+  }
+}
+
+// ===================== Bankroll =====================
+/** Logs a chip movement that has already been applied to `player.stack`. */
+function record(state: TableState, player: Player, kind: LedgerKind, amount: number, now: number) {
+  const ledger = (state.ledgers[player.id] ??= []);
+  ledger.push({ kind, amount, balance: player.stack, at: now });
+  if (ledger.length > LEDGER_LIMIT) ledger.splice(0, ledger.length - LEDGER_LIMIT);
+}
+
+/**
+ * What `playerId` would walk away with right now: their stack plus anything still on the table
+ * in the lobby. Chips in play mid-round are lost, as they would be at a real table.
+ */
+export function bankrollOf(state: TableState, playerId: string): Bankroll | null {
+  const player = state.players.find(p => p.id === playerId);
+  if (!player) return null;
+  const sideStakes = Object.values(player.sideBets).reduce((sum, side) => sum + side.stake, 0);
+  const stack = player.stack + (state.phase === "LOBBY" ? player.bet + sideStakes : 0);
+  return { stack, rebuys: player.rebuys, ledger: state.ledgers[playerId] ?? [] };
+}
+
+export const ledgerOf = (state: TableState, playerId: string | null) => (playerId && state.ledgers[playerId]) || [];
+
+// ===================== Helpers =====================
+function draw(state: TableState): Card {
+  if (state.shoe.length === 0) refillShoe(state);
+  const card = state.shoe.pop();
+  if (!card) throw new GameError("The shoe is empty");
+  return card;
+}
+
+/**
+ * A full table splitting on a short shoe can still run it dry mid-round. The round goes on with the
+ * next pack from the shoe's own seeds, so every card can still be checked once the seed is revealed.
+ */
+function refillShoe(state: TableState) {
+  const seeds = state.fairness.current;
+  if (!seeds || !state.serverSeeds.current) return;
+  const onTable = [...state.dealer.cards, ...state.players.flatMap(p => p.hands.flatMap(h => h.cards))];
+  const last = Math.max(-1, ...onTable.map(drawPosition));
+  state.shoe = shoeFromSeeds(state.serverSeeds.current, seeds, Math.floor(last / (seeds.decks * 52)) + 1);
+}
+
+function nextSeat(state: GameState, from: number, eligible: (p: Player) => boolean): number {
+  for (let i = from + 1; i < state.players.length; i++) {
+    if (eligible(state.players[i])) return i;
+  }
+  return -1;
+}
+
+function findPlayer(state: GameState, playerId: string): Player {
+  const player = state.players.find(p => p.id === playerId);
+  if (!player) throw new GameError("You are not seated in this room");
+  return player;
+}
+
+const HOLE_CARD_REVEALED: Phase[] = ["DEALER", "RESULT"];
+export const isHoleCardRevealed = (phase: Phase) => HOLE_CARD_REVEALED.includes(phase);
+
+/** Strips the shoe and masks the hole card so the state can be sent to clients. */
+export function toPublicState(state: TableState): GameState {
+  const revealed = isHoleCardRevealed(state.phase);
+  const cards = state.dealer.cards.map((card, idx) =>
+    idx === 1 && !revealed ? { id: card.id, suit: "♠" as Suit, rank: "A" as Rank } : card
+  );
+  return {
+    code: state.code,
+    players: state.players,
+    dealer: { cards },
+    phase: state.phase,
+    turnIdx: state.turnIdx,
+    handIdx: state.handIdx,
+    rules: state.rules,
+    turnDeadline: state.turnDeadline,
+    hostId: state.hostId,
+    locked: state.locked,
+    hasPassword: state.hasPassword,
+    fairness: state.fairness,
+  };
+}
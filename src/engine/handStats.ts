@@ -0,0 +1,229 @@
+import { calculateValue, isTenValue } from "./cards.ts";
+import type { RoundRecord } from "./history.ts";
+import { blackjackWin } from "./rules.ts";
+import { describeHand, handCategory, type HandCategory } from "./strategy.ts";
+import type { Card, Hand, HandResult, Rank } from "./types.ts";
+import { expectArray, expectBoolean, expectNumber, expectRecord, expectString, fail } from "./validate.ts";
+
+// One row per hand the viewer played, boiled down from finished round records for the stats charts.
+
+/** The first decision made on a hand. "none" covers naturals and hands nobody acted on. */
+export type HandAction = "hit" | "stand" | "double" | "split" | "surrender" | "evenMoney" | "none";
+
+export interface HandStat {
+  roundId: string;
+  /** One sitting at one table; see `sessionsOf`. */
+  sessionId: string;
+  code: string;
+  /** When the round finished. */
+  at: number;
+  /** The starting hand, e.g. "Hard 16", "Soft 18" or "Pair of 8s". Split hands count as the pair. */
+  start: string;
+  category: HandCategory;
+  startTotal: number;
+  /** Ten-value upcards are all "10". */
+  upcard: Rank;
+  action: HandAction;
+  /** The bet before any double. */
+  bet: number;
+  doubled: boolean;
+  result: HandResult;
+  /** Winnings minus what the hand lost, doubles included. */
+  net: number;
+  /** Net on insurance, kept on the first hand of the round only; `null` if none was bought. */
+  insurance: number | null;
+}
+
+const HAND_ACTIONS: HandAction[] = ["hit", "stand", "double", "split", "surrender", "evenMoney", "none"];
+const RESULTS: HandResult[] = ["WIN", "LOSE", "PUSH", "BUST", "BLACKJACK", "SURRENDER"];
+
+export const UPCARDS: Rank[] = ["2", "3", "4", "5", "6", "7", "8", "9", "10", "A"];
+
+// ===================== Recording =====================
+function handNet(round: RoundRecord, hand: Hand): number {
+  switch (hand.result) {
+    case "WIN":
+      return hand.bet;
+    case "BLACKJACK":
+      return blackjackWin(round.rules, hand.bet);
+    case "SURRENDER":
+      return -(hand.bet - Math.floor(hand.bet / 2));
+    case "LOSE":
+    case "BUST":
+      return -hand.bet;
+    default:
+      return 0;
+  }
+}
+
+/** The viewer's hands in a finished round, or nothing if they sat it out or it never finished. */
+export function handStatsOf(round: RoundRecord, sessionId: string): HandStat[] {
+  const final = round.frames[round.frames.length - 1];
+  const me = final?.players.find(p => p.id === round.viewerId);
+  const upcard = final?.dealer.cards[0];
+  if (round.endedAt === null || !me || !upcard) return [];
+
+  const seat = round.events.find(e => e.kind === "seat" && e.playerId === me.id);
+  const firstAction = round.events.find(
+    e => e.kind === "action" && e.playerId === me.id && e.action !== "insurance" && e.action !== "declineInsurance"
+  );
+  const insurance =
+    me.insuranceBet && me.insuranceResult ? (me.insuranceResult === "WIN" ? me.insuranceBet * 2 : -me.insuranceBet) : null;
+
+  return me.hands.flatMap((hand, idx): HandStat[] => {
+    if (!hand.result || hand.cards.length < 2) return [];
+    const bet = seat?.kind === "seat" ? seat.bet : hand.bet;
+    // A split hand started life as the pair it came from.
+    const startCards: Card[] = hand.split ? [hand.cards[0], hand.cards[0]] : hand.cards.slice(0, 2);
+    const action: HandAction = hand.split ? "split" : firstAction?.kind === "action" ? firstAction.action as HandAction : "none";
+    return [
+      {
+        roundId: round.id,
+        sessionId,
+        code: round.code,
+        at: round.endedAt ?? round.startedAt,
+        start: describeHand(startCards),
+        category: handCategory(startCards),
+        startTotal: calculateValue(startCards),
+        upcard: isTenValue(upcard) ? "10" : upcard.rank,
+        action,
+        bet,
+        doubled: hand.bet > bet,
+        result: hand.result,
+        net: handNet(round, hand),
+        insurance: idx === 0 ? insurance : null,
+      },
+    ];
+  });
+}
+
+export function validateHandStats(value: unknown, path = "handStats"): HandStat[] {
+  return expectArray(value, path).map((h, idx) => {
+    const at = `${path}[${idx}]`;
+    const stat = expectRecord(h, at);
+    if (!HAND_ACTIONS.includes(stat.action as HandAction)) fail(`${at}.action`, `unknown action "${String(stat.action)}"`);
+    if (!RESULTS.includes(stat.result as HandResult)) fail(`${at}.result`, `unknown result "${String(stat.result)}"`);
+    if (!UPCARDS.includes(stat.upcard as Rank)) fail(`${at}.upcard`, `not an upcard "${String(stat.upcard)}"`);
+    if (!["hard", "soft", "pair"].includes(stat.category as string)) fail(`${at}.category`, "expected hard, soft or pair");
+    return {
+      roundId: expectString(stat.roundId, `${at}.roundId`),
+      sessionId: expectString(stat.sessionId, `${at}.sessionId`),
+      code: expectString(stat.code, `${at}.code`),
+      at: expectNumber(stat.at, `${at}.at`),
+      start: expectString(stat.start, `${at}.start`),
+      category: stat.category as HandCategory,
+      startTotal: expectNumber(stat.startTotal, `${at}.startTotal`),
+      upcard: stat.upcard as Rank,
+      action: stat.action as HandAction,
+      bet: expectNumber(stat.bet, `${at}.bet`),
+      doubled: expectBoolean(stat.doubled, `${at}.doubled`),
+      result: stat.result as HandResult,
+      net: expectNumber(stat.net, `${at}.net`),
+      insurance: stat.insurance === null ? null : expectNumber(stat.insurance, `${at}.insurance`),
+    };
+  });
+}
+
+// ===================== Filtering =====================
+export interface HandStatFilter {
+  sessionId: string | null;
+  /** Inclusive bounds on `at`, in ms. */
+  from: number | null;
+  to: number | null;
+}
+
+export const filterHandStats = (stats: HandStat[], { sessionId, from, to }: HandStatFilter) =>
+  stats.filter(s => (sessionId === null || s.sessionId === sessionId) && (from === null || s.at >= from) && (to === null || s.at <= to));
+
+export interface SessionSummary {
+  id: string;
+  code: string;
+  startedAt: number;
+  hands: number;
+  net: number;
+}
+
+/** Sessions, newest first. */
+export function sessionsOf(stats: HandStat[]): SessionSummary[] {
+  const sessions = new Map<string, SessionSummary>();
+  for (const s of stats) {
+    const session = sessions.get(s.sessionId) ?? { id: s.sessionId, code: s.code, startedAt: s.at, hands: 0, net: 0 };
+    session.startedAt = Math.min(session.startedAt, s.at);
+    session.hands++;
+    session.net += s.net + (s.insurance ?? 0);
+    sessions.set(s.sessionId, session);
+  }
+  return [...sessions.values()].sort((a, b) => b.startedAt - a.startedAt);
+}
+
+// ===================== Aggregates =====================
+const isWin = (s: HandStat) => s.result === "WIN" || s.result === "BLACKJACK";
+
+export interface WinRateCell {
+  won: number;
+  hands: number;
+}
+
+/** Rows are starting hands (hard, then soft, then pairs, each by total); columns are `UPCARDS`. */
+export interface WinRateGrid {
+  rows: string[];
+  cells: Record<string, Partial<Record<Rank, WinRateCell>>>;
+}
+
+export function winRateGrid(stats: HandStat[]): WinRateGrid {
+  const order: Record<HandCategory, number> = { hard: 0, soft: 1, pair: 2 };
+  const sortKey = new Map<string, number>();
+  const cells: WinRateGrid["cells"] = {};
+  for (const s of stats) {
+    // Two aces total 12, like two sixes; they go after the tens instead.
+    const total = s.category === "pair" && s.start.endsWith("Aces") ? 22 : s.startTotal;
+    sortKey.set(s.start, order[s.category] * 100 + total);
+    const row = (cells[s.start] ??= {});
+    const cell = (row[s.upcard] ??= { won: 0, hands: 0 });
+    cell.hands++;
+    if (isWin(s)) cell.won++;
+  }
+  const rows = [...sortKey.keys()].sort((a, b) => (sortKey.get(a) ?? 0) - (sortKey.get(b) ?? 0));
+  return { rows, cells };
+}
+
+/** Running net after each hand, insurance included, oldest first. */
+export function profitSeries(stats: HandStat[]): number[] {
+  let total = 0;
+  return [...stats].sort((a, b) => a.at - b.at).map(s => (total += s.net + (s.insurance ?? 0)));
+}
+
+export interface BetSizeReturn {
+  bet: number;
+  hands: number;
+  /** Everything put on the table, doubles included. */
+  wagered: number;
+  net: number;
+}
+
+/** Results grouped by starting bet, smallest first. */
+export function returnByBet(stats: HandStat[]): BetSizeReturn[] {
+  const byBet = new Map<number, BetSizeReturn>();
+  for (const s of stats) {
+    const row = byBet.get(s.bet) ?? { bet: s.bet, hands: 0, wagered: 0, net: 0 };
+    row.hands++;
+    row.wagered += s.doubled ? s.bet * 2 : s.bet;
+    row.net += s.net;
+    byBet.set(s.bet, row);
+  }
+  return [...byBet.values()].sort((a, b) => a.bet - b.bet);
+}
+
+export interface SuccessRates {
+  doubles: { won: number; total: number };
+  insurance: { won: number; total: number };
+}
+
+export function successRates(stats: HandStat[]): SuccessRates {
+  const doubled = stats.filter(s => s.doubled);
+  const insured = stats.filter(s => s.insurance !== null);
+  return {
+    doubles: { won: doubled.filter(isWin).length, total: doubled.length },
+    insurance: { won: insured.filter(s => (s.insurance ?? 0) > 0).length, total: insured.length },
+  };
+}
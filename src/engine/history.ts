@@ -0,0 +1,194 @@
+import { calculateValue } from "./cards.ts";
+import { isHoleCardRevealed } from "./game.ts";
+import type { Card, GameState, HandResult, TableRules } from "./types.ts";
+
+/** The parts of a state frame a replay needs. Rules are stored once per round. */
+export type RoundFrame = Pick<GameState, "phase" | "players" | "dealer" | "turnIdx" | "handIdx">;
+
+export type RecordedAction = "hit" | "stand" | "double" | "split" | "surrender" | "insurance" | "declineInsurance" | "evenMoney";
+
+/** Something that happened between two frames. `frame` is the index of the frame that shows it. */
+export type RoundEvent =
+  | { kind: "seat"; frame: number; playerId: string; seat: number; stack: number; bet: number }
+  | { kind: "card"; frame: number; playerId: string; hand: number; card: Card }
+  | { kind: "dealerCard"; frame: number; card: Card; hidden: boolean }
+  | { kind: "reveal"; frame: number; card: Card }
+  | { kind: "action"; frame: number; playerId: string; hand: number; action: RecordedAction; amount?: number }
+  | { kind: "result"; frame: number; playerId: string; hand: number; result: HandResult; status: string }
+  | { kind: "payout"; frame: number; playerId: string; amount: number; stack: number };
+
+export interface RoundRecord {
+  id: string;
+  code: string;
+  startedAt: number;
+  endedAt: number | null;
+  rules: TableRules;
+  /** The seat of the client that recorded the round, if it was playing. */
+  viewerId: string | null;
+  /** Everyone who held a seat during the round, so events can be named after they leave. */
+  names: Record<string, string>;
+  frames: RoundFrame[];
+  events: RoundEvent[];
+}
+
+const toFrame = (state: GameState): RoundFrame => ({
+  phase: state.phase,
+  players: state.players,
+  dealer: state.dealer,
+  turnIdx: state.turnIdx,
+  handIdx: state.handIdx,
+});
+
+// ===================== Recording =====================
+/** Opens a round from the last LOBBY frame, which still shows every seat and bet. */
+export function startRound(lobby: GameState, id: string, now: number, viewerId: string | null = null): RoundRecord {
+  const seated = lobby.players.filter(p => p.bet > 0);
+  return {
+    id,
+    code: lobby.code,
+    startedAt: now,
+    endedAt: null,
+    rules: lobby.rules,
+    viewerId,
+    names: Object.fromEntries(lobby.players.map(p => [p.id, p.name])),
+    frames: [toFrame(lobby)],
+    events: seated.map(p => ({
+      kind: "seat",
+      frame: 0,
+      playerId: p.id,
+      seat: lobby.players.indexOf(p) + 1,
+      stack: p.stack + p.bet,
+      bet: p.bet,
+    })),
+  };
+}
+
+/** Appends a state frame and the events that lead to it. Frames that change nothing are dropped. */
+export function recordFrame(record: RoundRecord, state: GameState): RoundRecord {
+  const prev = record.frames[record.frames.length - 1];
+  const next = toFrame(state);
+  if (JSON.stringify(prev) === JSON.stringify(next)) return record;
+
+  const frame = record.frames.length;
+  return {
+    ...record,
+    names: { ...record.names, ...Object.fromEntries(state.players.map(p => [p.id, p.name])) },
+    frames: [...record.frames, next],
+    events: [...record.events, ...diffFrames(prev, next, frame)],
+  };
+}
+
+export const finishRound = (record: RoundRecord, now: number): RoundRecord => ({ ...record, endedAt: now });
+
+function diffFrames(prev: RoundFrame, next: RoundFrame, frame: number): RoundEvent[] {
+  const events: RoundEvent[] = [];
+
+  const prevTurn = prev.phase === "INSURANCE" ? prev.players[prev.turnIdx] : undefined;
+  for (const player of next.players) {
+    const before = prev.players.find(p => p.id === player.id);
+    const beforeHands = prev.phase === "LOBBY" || !before ? [] : before.hands;
+
+    if (player.insuranceBet && !before?.insuranceBet) {
+      events.push({ kind: "action", frame, playerId: player.id, hand: 0, action: "insurance", amount: player.insuranceBet });
+    } else if (prevTurn?.id === player.id && (next.phase !== "INSURANCE" || next.turnIdx !== prev.turnIdx)) {
+      const surrendered = player.hands[0]?.result === "SURRENDER" && beforeHands[0]?.result !== "SURRENDER";
+      const evenMoney = player.hands[0]?.result === "WIN" && !beforeHands[0]?.result;
+      if (evenMoney) events.push({ kind: "action", frame, playerId: player.id, hand: 0, action: "evenMoney", amount: player.hands[0].bet });
+      else if (!surrendered) events.push({ kind: "action", frame, playerId: player.id, hand: 0, action: "declineInsurance" });
+    }
+
+    const didSplit = beforeHands.length > 0 && player.hands.length > beforeHands.length;
+    if (didSplit) {
+      events.push({ kind: "action", frame, playerId: player.id, hand: prev.handIdx, action: "split", amount: beforeHands[prev.handIdx].bet });
+    }
+
+    // Hands are matched on their first card: a split leaves it with the original hand.
+    const seen = new Set(beforeHands.flatMap(h => h.cards.map(c => c.id)));
+    player.hands.forEach((hand, idx) => {
+      const old = beforeHands.find(h => h.cards[0] && h.cards[0].id === hand.cards[0]?.id);
+      const fresh = hand.cards.filter(c => !seen.has(c.id));
+
+      if (old && hand.bet > old.bet) {
+        events.push({ kind: "action", frame, playerId: player.id, hand: idx, action: "double", amount: hand.bet - old.bet });
+      } else if (old && !didSplit && prev.phase === "PLAYER" && fresh.length > 0) {
+        events.push({ kind: "action", frame, playerId: player.id, hand: idx, action: "hit" });
+      }
+      for (const card of fresh) events.push({ kind: "card", frame, playerId: player.id, hand: idx, card });
+
+      if (hand.result === "SURRENDER" && old?.result !== "SURRENDER") {
+        events.push({ kind: "action", frame, playerId: player.id, hand: idx, action: "surrender" });
+      } else if (old && !old.done && hand.status === "Stand" && fresh.length === 0) {
+        events.push({ kind: "action", frame, playerId: player.id, hand: idx, action: "stand" });
+      }
+
+      if (next.phase === "RESULT" && prev.phase !== "RESULT" && hand.result) {
+        events.push({ kind: "result", frame, playerId: player.id, hand: idx, result: hand.result, status: hand.status });
+      }
+    });
+
+    if (next.phase === "RESULT" && prev.phase !== "RESULT" && player.hands.length > 0) {
+      const amount = player.stack - (before?.stack ?? player.stack);
+      events.push({ kind: "payout", frame, playerId: player.id, amount, stack: player.stack });
+    }
+  }
+
+  // Dealer cards go last, since the hole card is turned over after the final player acts.
+  const revealed = isHoleCardRevealed(next.phase);
+  const prevDealer = prev.phase === "LOBBY" ? [] : prev.dealer.cards;
+  next.dealer.cards.forEach((card, idx) => {
+    if (idx >= prevDealer.length) {
+      events.push({ kind: "dealerCard", frame, card, hidden: idx === 1 && !revealed });
+    } else if (idx === 1 && revealed && !isHoleCardRevealed(prev.phase)) {
+      events.push({ kind: "reveal", frame, card });
+    }
+  });
+  return events;
+}
+
+// ===================== Describing =====================
+export const cardLabel = (card: Card) => `${card.rank}${card.suit}`;
+
+/** One line of plain English for the event, e.g. "Anna (hand 2) doubles for $25". */
+export function describeEvent(record: RoundRecord, event: RoundEvent): string {
+  const name = "playerId" in event ? record.names[event.playerId] ?? "Someone" : "Dealer";
+  const handNo = (hand: number) => {
+    const player = record.frames[event.frame]?.players.find(p => "playerId" in event && p.id === event.playerId);
+    return player && player.hands.length > 1 ? ` (hand ${hand + 1})` : "";
+  };
+
+  switch (event.kind) {
+    case "seat":
+      return `${name} sits in seat ${event.seat} with $${event.stack} and bets $${event.bet}`;
+    case "card":
+      return `${name}${handNo(event.hand)} is dealt ${cardLabel(event.card)}`;
+    case "dealerCard":
+      return event.hidden ? "Dealer takes the hole card" : `Dealer is dealt ${cardLabel(event.card)}`;
+    case "reveal":
+      return `Dealer turns over ${cardLabel(event.card)}`;
+    case "action":
+      switch (event.action) {
+        case "insurance":
+          return `${name} buys insurance for $${event.amount}`;
+        case "declineInsurance":
+          return `${name} declines insurance`;
+        case "evenMoney":
+          return `${name} takes even money, $${event.amount}`;
+        case "double":
+          return `${name}${handNo(event.hand)} doubles for $${event.amount}`;
+        case "split":
+          return `${name} splits for $${event.amount}`;
+        default:
+          return `${name}${handNo(event.hand)} ${event.action}s`;
+      }
+    case "result":
+      return `${name}${handNo(event.hand)}: ${event.status}`;
+    case "payout":
+      return `${name} collects $${event.amount}, stack $${event.stack}`;
+  }
+}
+
+/** The dealer's final total, or `null` if the hole card was never shown. */
+export function dealerTotal(record: RoundRecord): number | null {
+  const last = record.frames[record.frames.length - 1];
+  return isHoleCardRevealed(last.phase) ? calculateValue(last.dealer.cards) : null;
+}
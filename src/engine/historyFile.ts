@@ -0,0 +1,149 @@
+import { describeEvent, type RoundEvent, type RoundFrame, type RoundRecord } from "./history.ts";
+import { describeRules, normalizeRules } from "./rules.ts";
+import type { Phase, TableRules } from "./types.ts";
+import {
+  expectArray,
+  expectNumber,
+  expectRecord,
+  expectString,
+  fail,
+  isRecord,
+  validateCards,
+  validatePhase,
+  validatePlayer,
+  ValidationError,
+} from "./validate.ts";
+
+export const HISTORY_FORMAT = "blackjack-ng/hand-history";
+export const HISTORY_VERSION = 1;
+
+/** Thrown when an imported file is not a hand history we can replay. The message says what is wrong and where. */
+export class HistoryFileError extends Error {
+  name = "HistoryFileError";
+}
+
+interface HistoryFile {
+  format: typeof HISTORY_FORMAT;
+  version: number;
+  exportedAt: string;
+  rounds: RoundRecord[];
+}
+
+// ===================== JSON =====================
+export function exportHistoryJson(rounds: RoundRecord[], now = new Date()): string {
+  const file: HistoryFile = { format: HISTORY_FORMAT, version: HISTORY_VERSION, exportedAt: now.toISOString(), rounds };
+  return JSON.stringify(file, null, 2);
+}
+
+export function parseHistoryJson(text: string): RoundRecord[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new HistoryFileError("This file is not valid JSON");
+  }
+
+  if (!isRecord(data) || data.format !== HISTORY_FORMAT) {
+    throw new HistoryFileError("This file is not a Blackjack hand history");
+  }
+  if (typeof data.version !== "number" || data.version > HISTORY_VERSION) {
+    throw new HistoryFileError(`Hand history version ${String(data.version)} is not supported (newest is ${HISTORY_VERSION})`);
+  }
+  const rounds = validateRounds(data.rounds, "rounds");
+  if (rounds.length === 0) throw new HistoryFileError("The file contains no rounds");
+  return rounds;
+}
+
+// ===================== Validation =====================
+const EVENT_KINDS: RoundEvent["kind"][] = ["seat", "card", "dealerCard", "reveal", "action", "result", "payout"];
+
+/** Checks a list of rounds, from a file or from storage, field by field. */
+export function validateRounds(value: unknown, path = "rounds"): RoundRecord[] {
+  try {
+    return expectArray(value, path).map((round, idx) => validateRound(round, `${path}[${idx}]`));
+  } catch (err) {
+    if (err instanceof ValidationError) throw new HistoryFileError(err.message);
+    throw err;
+  }
+}
+
+function validateRound(value: unknown, path: string): RoundRecord {
+  const round = expectRecord(value, path);
+  const frames = expectArray(round.frames, `${path}.frames`).map((f, idx) => validateFrame(f, `${path}.frames[${idx}]`));
+  if (frames.length === 0) fail(`${path}.frames`, "a round needs at least one frame");
+
+  const names = expectRecord(round.names, `${path}.names`);
+  for (const [id, name] of Object.entries(names)) expectString(name, `${path}.names.${id}`);
+
+  const events = expectArray(round.events, `${path}.events`).map((e, idx) => {
+    const event = expectRecord(e, `${path}.events[${idx}]`);
+    if (!EVENT_KINDS.includes(event.kind as RoundEvent["kind"])) fail(`${path}.events[${idx}].kind`, `unknown event "${String(event.kind)}"`);
+    const frame = expectNumber(event.frame, `${path}.events[${idx}].frame`);
+    if (frame < 0 || frame >= frames.length) fail(`${path}.events[${idx}].frame`, `frame ${frame} does not exist`);
+    if (event.kind !== "dealerCard" && event.kind !== "reveal") expectString(event.playerId, `${path}.events[${idx}].playerId`);
+    if (event.kind === "card" || event.kind === "dealerCard" || event.kind === "reveal") {
+      validateCards([event.card], `${path}.events[${idx}].card`);
+    }
+    return event as RoundEvent;
+  });
+
+  return {
+    id: expectString(round.id, `${path}.id`),
+    code: expectString(round.code, `${path}.code`),
+    startedAt: expectNumber(round.startedAt, `${path}.startedAt`),
+    endedAt: round.endedAt === null ? null : expectNumber(round.endedAt, `${path}.endedAt`),
+    rules: normalizeRules(expectRecord(round.rules, `${path}.rules`) as Partial<TableRules>),
+    viewerId: typeof round.viewerId === "string" ? round.viewerId : null,
+    names: names as Record<string, string>,
+    frames,
+    events,
+  };
+}
+
+function validateFrame(value: unknown, path: string): RoundFrame {
+  const frame = expectRecord(value, path);
+  const dealer = expectRecord(frame.dealer, `${path}.dealer`);
+  return {
+    phase: validatePhase(frame.phase, `${path}.phase`),
+    players: expectArray(frame.players, `${path}.players`).map((p, idx) => validatePlayer(p, `${path}.players[${idx}]`)),
+    dealer: { cards: validateCards(dealer.cards, `${path}.dealer.cards`) },
+    turnIdx: expectNumber(frame.turnIdx, `${path}.turnIdx`),
+    handIdx: expectNumber(frame.handIdx, `${path}.handIdx`),
+  };
+}
+
+// ===================== Text log =====================
+const SECTIONS: Partial<Record<Phase, string>> = {
+  DEALING: "DEAL",
+  INSURANCE: "INSURANCE",
+  PLAYER: "PLAYER TURNS",
+  DEALER: "DEALER",
+  RESULT: "SUMMARY",
+};
+
+/**
+ * One round as a plain-text log in the spirit of poker hand histories. Actions belong to the phase
+ * they were taken in; reveals and settlement to the phase they produced.
+ */
+export function formatHandLog(round: RoundRecord): string {
+  const lines = [
+    `Blackjack Hand #${round.id.slice(0, 8)} - Room ${round.code} - ${new Date(round.startedAt).toISOString()}`,
+    `Table: ${describeRules(round.rules)}`,
+  ];
+
+  let section: string | undefined;
+  for (const event of round.events) {
+    const sectionPhase = ["reveal", "result", "payout"].includes(event.kind) || event.frame === 0
+      ? round.frames[event.frame].phase
+      : round.frames[event.frame - 1].phase;
+    const heading = event.kind === "seat" ? undefined : SECTIONS[sectionPhase] ?? section;
+    if (heading && heading !== section) {
+      section = heading;
+      lines.push(`*** ${heading} ***`);
+    }
+    lines.push(describeEvent(round, event));
+  }
+  return lines.join("\n");
+}
+
+export const formatHistoryLog = (rounds: RoundRecord[]) => rounds.map(formatHandLog).join("\n\n") + "\n";
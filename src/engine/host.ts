@@ -0,0 +1,62 @@
+import { autoAction, legalActions } from "./game.ts";
+import type { TableMessage } from "./protocol.ts";
+import type { Action, PlayerAction, SystemAction, TableState } from "./types.ts";
+
+// Shared by everything that runs a table: the game server and the in-browser offline mode.
+
+/** Pacing of the automatic steps, roughly matched to the client animations. */
+export const STEP_DELAYS: Record<SystemAction["type"], number> = {
+  shuffle: 2500,
+  deal: 450,
+  dealerDraw: 800,
+  settle: 800,
+  reset: 6000,
+  timeout: 0,
+};
+
+/** The step the host should dispatch next and how long to wait first, or `null` while the table waits on a player with no clock. */
+export function nextStep(state: TableState, now = Date.now()): { action: SystemAction; delay: number } | null {
+  const action = autoAction(state);
+  if (action) return { action, delay: STEP_DELAYS[action.type] };
+  if (state.turnDeadline === null) return null;
+  return { action: { type: "timeout" }, delay: Math.max(STEP_DELAYS.timeout, state.turnDeadline - now) };
+}
+
+/** Timers may fire a millisecond early; a timeout that isn't due yet has to be scheduled again. */
+export const isDue = (state: TableState, action: SystemAction, now = Date.now()) =>
+  action.type !== "timeout" || (state.turnDeadline !== null && now >= state.turnDeadline);
+
+/**
+ * A step the table was due to take, or a move it offered, that still failed mid-round. The round
+ * has no way forward and the host should call it off with `abandonRound`.
+ */
+export function isStuck(state: TableState, action: Action): boolean {
+  if (state.phase === "LOBBY" || state.phase === "RESULT") return false;
+  if ("playerId" in action) return legalActions(state, action.playerId).includes(action.type);
+  return isDue(state, action);
+}
+
+/** Maps a table message from a seated client onto the engine action for their seat. */
+export function toPlayerAction(message: TableMessage, playerId: string): PlayerAction {
+  switch (message.type) {
+    case "ready":
+      return { type: "ready", playerId, ready: message.payload.ready };
+    case "bet":
+      return { type: "bet", playerId, value: message.payload.value };
+    case "sideBet":
+      return { type: "sideBet", playerId, kind: message.payload.kind, value: message.payload.value };
+    case "clientSeed":
+      return { type: "clientSeed", playerId, seed: message.payload.seed };
+    case "kick":
+    case "transferHost":
+      return { type: message.type, playerId, targetId: message.payload.targetId };
+    case "lock":
+      return { type: "lock", playerId, locked: message.payload.locked };
+    case "setPassword":
+      return { type: "setPassword", playerId, password: message.payload.password };
+    case "moveSeat":
+      return { type: "moveSeat", playerId, targetId: message.payload.targetId, seat: message.payload.seat };
+    default:
+      return { type: message.type, playerId };
+  }
+}
@@ -0,0 +1,15 @@
+export * from "./types.ts";
+export * from "./cards.ts";
+export * from "./rules.ts";
+export * from "./game.ts";
+export * from "./host.ts";
+export * from "./strategy.ts";
+export * from "./counting.ts";
+export * from "./history.ts";
+export * from "./historyFile.ts";
+export * from "./validate.ts";
+export * from "./protocol.ts";
+export * from "./fairness.ts";
+export * from "./sideBets.ts";
+export * from "./handStats.ts";
+export * from "./profile.ts";
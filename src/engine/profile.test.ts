@@ -0,0 +1,66 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { mergeProfileData, validateProfileData, type ProfileData } from "./profile.ts";
+import type { Bankroll } from "./types.ts";
+import { TooLargeError } from "./validate.ts";
+
+const prefs = { name: "Ann", theme: "classic", hints: false, trainer: false };
+const profile = (stats: Record<string, number>, changes: Partial<ProfileData> = {}): ProfileData => ({
+  stats,
+  prefs,
+  bankroll: null,
+  ...changes,
+});
+/** A bankroll whose last ledger entry was at `at`. */
+const bankroll = (stack: number, at: number): Bankroll => ({ stack, rebuys: 0, ledger: [{ kind: "payout", amount: 10, balance: stack, at }] });
+
+// ===================== Merging =====================
+describe("mergeProfileData", () => {
+  it("adds up what each side played since they last agreed", () => {
+    const merged = mergeProfileData(profile({ wins: 5 }), profile({ wins: 7, losses: 1 }), profile({ wins: 8 }));
+    assert.deepEqual(merged.stats, { wins: 10, losses: 1 });
+  });
+
+  it("keeps the higher value or the changed one where a stat says so", () => {
+    const merged = mergeProfileData(
+      profile({ bestStreak: 3, currentStreak: 2 }),
+      profile({ bestStreak: 4, currentStreak: 0 }),
+      profile({ bestStreak: 6, currentStreak: 5 }),
+      { bestStreak: "max", currentStreak: "latest" }
+    );
+    assert.deepEqual(merged.stats, { bestStreak: 6, currentStreak: 0 });
+  });
+
+  it("keeps each preference changed here, and takes the rest from the other side", () => {
+    const base = profile({});
+    const local = profile({}, { prefs: { ...prefs, theme: "midnight" } });
+    const remote = profile({}, { prefs: { ...prefs, name: "Annie", theme: "neon" } });
+    assert.deepEqual(mergeProfileData(base, local, remote).prefs, { ...prefs, name: "Annie", theme: "midnight" });
+  });
+
+  it("keeps the bankroll played most recently, never a sum of both", () => {
+    const base = profile({}, { bankroll: bankroll(1000, 1) });
+    const local = profile({}, { bankroll: bankroll(900, 5) });
+    const remote = profile({}, { bankroll: bankroll(1200, 3) });
+    assert.equal(mergeProfileData(base, local, remote).bankroll?.stack, 900);
+    assert.equal(mergeProfileData(base, base, remote).bankroll?.stack, 1200);
+    assert.equal(mergeProfileData(base, local, base).bankroll?.stack, 900);
+  });
+});
+
+// ===================== Validation =====================
+describe("validateProfileData", () => {
+  it("drops stats that aren't numbers", () => {
+    const data = validateProfileData({ stats: { wins: 3, oops: "x", nan: null }, prefs, bankroll: null });
+    assert.deepEqual(data.stats, { wins: 3 });
+  });
+
+  it("refuses a profile over the size limits", () => {
+    const stats = Object.fromEntries(Array.from({ length: 101 }, (_, i) => [`stat${i}`, i]));
+    assert.throws(() => validateProfileData({ stats, prefs, bankroll: null }), TooLargeError);
+    assert.throws(() => validateProfileData({ stats: {}, prefs: { ...prefs, name: "x".repeat(65) }, bankroll: null }), TooLargeError);
+
+    const ledger = Array.from({ length: 501 }, () => bankroll(10, 1).ledger[0]);
+    assert.throws(() => validateProfileData({ stats: {}, prefs, bankroll: { stack: 10, rebuys: 0, ledger } }), TooLargeError);
+  });
+});
@@ -0,0 +1,125 @@
+import { LEDGER_LIMIT } from "./game.ts";
+import type { Bankroll } from "./types.ts";
+import { expectBoolean, expectRecord, expectString, failTooLarge, validateBankroll } from "./validate.ts";
+
+// A player profile kept on the game server, so stats, settings and the practice bankroll follow a
+// player from one device to the next. Each browser still keeps its own copy and syncs it.
+
+export const USERNAME_PATTERN = /^[a-z0-9_-]{3,20}$/;
+export const MIN_PASSPHRASE_LENGTH = 8;
+export const MAX_PASSPHRASE_LENGTH = 200;
+
+/** Usernames are compared lowercased, so "Ann" and "ann" are one profile. */
+export const normalizeUsername = (username: string) => username.trim().toLowerCase();
+
+/** Why a username or passphrase can't be used, or `null` if it can. Checked on both ends. */
+export function credentialProblem(username: string, passphrase: string): string | null {
+  if (!USERNAME_PATTERN.test(normalizeUsername(username))) {
+    return "Usernames are 3 to 20 letters, digits, dashes or underscores";
+  }
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) return `Passphrases need at least ${MIN_PASSPHRASE_LENGTH} characters`;
+  if (passphrase.length > MAX_PASSPHRASE_LENGTH) return `Passphrases are at most ${MAX_PASSPHRASE_LENGTH} characters`;
+  return null;
+}
+
+export interface ProfilePrefs {
+  name: string;
+  theme: string;
+  hints: boolean;
+  trainer: boolean;
+}
+
+export interface ProfileData {
+  /** Win/loss counters and the like. What each field means is up to the client. */
+  stats: Record<string, number>;
+  prefs: ProfilePrefs;
+  /** The practice table bankroll; `null` until one has been played. */
+  bankroll: Bankroll | null;
+}
+
+/** Size limits on a profile, so one player can't fill up the server. The client stays far below them. */
+const STAT_LIMIT = 100;
+const TEXT_LIMIT = 64;
+
+function limitedText(value: unknown, path: string): string {
+  const text = expectString(value, path);
+  if (text.length > TEXT_LIMIT) failTooLarge(path, `longer than ${TEXT_LIMIT} characters`);
+  return text;
+}
+
+/** Checks the shape of a profile, and throws a `TooLargeError` if it is over the size limits. */
+export function validateProfileData(value: unknown, path = "profile"): ProfileData {
+  const data = expectRecord(value, path);
+  const stats = Object.entries(expectRecord(data.stats, `${path}.stats`));
+  const prefs = expectRecord(data.prefs, `${path}.prefs`);
+  if (stats.length > STAT_LIMIT) failTooLarge(`${path}.stats`, `more than ${STAT_LIMIT} stats`);
+  for (const [key] of stats) {
+    if (key.length > TEXT_LIMIT) failTooLarge(`${path}.stats`, `a stat name is longer than ${TEXT_LIMIT} characters`);
+  }
+  const bankroll = data.bankroll === null ? null : validateBankroll(data.bankroll, `${path}.bankroll`);
+  if (bankroll && bankroll.ledger.length > LEDGER_LIMIT) failTooLarge(`${path}.bankroll.ledger`, `more than ${LEDGER_LIMIT} entries`);
+  return {
+    stats: Object.fromEntries(stats.filter(([, n]) => typeof n === "number" && Number.isFinite(n))) as Record<string, number>,
+    prefs: {
+      name: limitedText(prefs.name, `${path}.prefs.name`),
+      theme: limitedText(prefs.theme, `${path}.prefs.theme`),
+      hints: expectBoolean(prefs.hints, `${path}.prefs.hints`),
+      trainer: expectBoolean(prefs.trainer, `${path}.prefs.trainer`),
+    },
+    bankroll,
+  };
+}
+
+// ===================== Merging =====================
+/**
+ * How two copies of a stat combine. "sum" adds up what each side played since they last agreed,
+ * "max" keeps the higher value and "latest" keeps whichever side changed it.
+ */
+export type StatMerge = "sum" | "max" | "latest";
+
+const lastActivity = (bankroll: Bankroll | null) => bankroll?.ledger.at(-1)?.at ?? -Infinity;
+const sameBankroll = (a: Bankroll | null, b: Bankroll | null) =>
+  a?.stack === b?.stack && a?.ledger.length === b?.ledger.length && lastActivity(a) === lastActivity(b);
+
+/**
+ * Three-way merge of a local and a remote copy that both started out as `base`. Stats not named
+ * in `statMerge` are summed. Each preference keeps the local value if it was changed here. The
+ * bankroll can't be added up without minting chips, so the one played most recently wins.
+ */
+export function mergeProfileData(
+  base: ProfileData,
+  local: ProfileData,
+  remote: ProfileData,
+  statMerge: Partial<Record<string, StatMerge>> = {}
+): ProfileData {
+  const keys = new Set([...Object.keys(local.stats), ...Object.keys(remote.stats)]);
+  const stats = Object.fromEntries(
+    [...keys].map(key => {
+      const [b, l, r] = [base.stats[key] ?? 0, local.stats[key] ?? 0, remote.stats[key] ?? 0];
+      switch (statMerge[key] ?? "sum") {
+        case "max":
+          return [key, Math.max(l, r)];
+        case "latest":
+          return [key, l !== b ? l : r];
+        default:
+          return [key, r + l - b];
+      }
+    })
+  );
+
+  const pick = <K extends keyof ProfilePrefs>(key: K) => (local.prefs[key] !== base.prefs[key] ? local.prefs[key] : remote.prefs[key]);
+  const prefs: ProfilePrefs = { name: pick("name"), theme: pick("theme"), hints: pick("hints"), trainer: pick("trainer") };
+
+  let bankroll = remote.bankroll;
+  if (sameBankroll(remote.bankroll, base.bankroll)) bankroll = local.bankroll;
+  else if (!sameBankroll(local.bankroll, base.bankroll) && lastActivity(local.bankroll) > lastActivity(remote.bankroll)) {
+    bankroll = local.bankroll;
+  }
+  return { stats, prefs, bankroll };
+}
+
+/** Field-by-field equality, for telling whether there is anything to sync. */
+export const sameProfileData = (a: ProfileData, b: ProfileData) =>
+  (Object.keys(a.prefs) as (keyof ProfilePrefs)[]).every(key => a.prefs[key] === b.prefs[key]) &&
+  sameBankroll(a.bankroll, b.bankroll) &&
+  [...new Set([...Object.keys(a.stats), ...Object.keys(b.stats)])].every(key => (a.stats[key] ?? 0) === (b.stats[key] ?? 0));
@@ -0,0 +1,392 @@
+import type { GameErrorCode } from "./game.ts";
+import { validateProfileData, type ProfileData } from "./profile.ts";
+import { normalizeRules } from "./rules.ts";
+import { SIDE_BET_KINDS } from "./sideBets.ts";
+import type { GameState, LedgerEntry, Phase, SideBetKind, TableRules } from "./types.ts";
+import {
+  expectArray,
+  expectBoolean,
+  expectNumber,
+  expectRecord,
+  expectString,
+  fail,
+  isRecord,
+  TooLargeError,
+  validateGameState,
+  validateLedger,
+  validatePhase,
+  ValidationError,
+} from "./validate.ts";
+
+// The WebSocket protocol between the game server and the client. Every frame is one JSON message.
+
+/** Bumped whenever a message changes shape. Client and server must agree on it exactly. */
+export const PROTOCOL_VERSION = 11;
+
+/** One row of the public room list. */
+export interface RoomSummary {
+  code: string;
+  rules: TableRules;
+  players: number;
+  spectators: number;
+  phase: Phase;
+  hasPassword: boolean;
+}
+
+export interface ChatMessage {
+  id: string;
+  playerId: string;
+  playerName: string;
+  text: string;
+  timestamp: number;
+}
+
+// ===================== Client → server =====================
+/** Moves a seated player makes at the table; each maps onto the engine `PlayerAction` of the same name. */
+export type TableMessage =
+  | { type: "ready"; payload: { ready: boolean } }
+  | { type: "bet"; payload: { value: number } }
+  | { type: "sideBet"; payload: { kind: SideBetKind; value: number } }
+  | { type: "clientSeed"; payload: { seed: string } }
+  | {
+      type: "start" | "insurance" | "declineInsurance" | "evenMoney" | "hit" | "stand" | "double" | "split" | "surrender" | "rebuy";
+      payload?: undefined;
+    }
+  | HostMessage;
+
+/** Room moderation, honoured for the host only. Maps onto the engine `HostAction` of the same name. */
+export type HostMessage =
+  | { type: "kick"; payload: { targetId: string } }
+  | { type: "transferHost"; payload: { targetId: string } }
+  | { type: "lock"; payload: { locked: boolean } }
+  | { type: "setPassword"; payload: { password: string | null } }
+  | { type: "moveSeat"; payload: { targetId: string; seat: number } }
+  | { type: "forceStart"; payload?: undefined };
+
+export type ClientMessage =
+  | { type: "hello"; version: number }
+  | {
+      type: "join";
+      roomId: string;
+      /** `rules` and `isPublic` only count when the join opens a new room. */
+      payload: { name: string; clientId: string; rules?: Partial<TableRules>; password?: string; isPublic?: boolean };
+    }
+  | { type: "resume"; roomId: string; payload: { clientId: string; token: string } }
+  /** Follow a room without a seat. */
+  | { type: "watch"; roomId: string }
+  /** Move from watching into a free seat; only allowed between rounds. */
+  | { type: "sit"; payload: { name: string; clientId: string; password?: string } }
+  /** Start or stop receiving the public room list. */
+  | { type: "listRooms" }
+  | { type: "unlistRooms" }
+  | { type: "leave"; payload?: undefined }
+  | { type: "chat"; payload: { text: string } }
+  | ProfileMessage
+  | TableMessage;
+
+/** Server-side profiles. They live alongside seats: signing in or out never touches the table. */
+export type ProfileMessage =
+  | { type: "signUp"; payload: { username: string; passphrase: string } }
+  | { type: "signIn"; payload: { username: string; passphrase: string } }
+  /** Signs back in with the token from an earlier `signedIn`, e.g. after a reload. */
+  | { type: "resumeProfile"; payload: { token: string } }
+  | { type: "signOut"; payload?: undefined }
+  /**
+   * Replaces the stored data if `revision` is still current; otherwise the server sends what it has.
+   * `id` is the client's name for this save, so it can tell later whether it went through.
+   */
+  | { type: "saveProfile"; payload: { id: string; revision: number; data: ProfileData } };
+
+/** Messages the table UI sends once seated, with the payload each one takes. */
+export type OutgoingType = Exclude<
+  ClientMessage["type"],
+  "hello" | "join" | "resume" | "watch" | "sit" | "listRooms" | "unlistRooms" | ProfileMessage["type"]
+>;
+export type OutgoingPayload<T extends OutgoingType> = Extract<ClientMessage, { type: T }>["payload"];
+
+// ===================== Server → client =====================
+export type ErrorCode =
+  /** The frame is not valid JSON or not a message this version knows. */
+  | "BAD_MESSAGE"
+  /** The client speaks a different protocol version. The connection is closed after this. */
+  | "VERSION_MISMATCH"
+  /** The client has not joined a room, or another connection took its seat. */
+  | "NOT_SEATED"
+  /** There is no room with that code to watch. */
+  | "ROOM_NOT_FOUND"
+  /** Wrong username or passphrase, a badly formed one, or too many tries. */
+  | "AUTH_FAILED"
+  | "USERNAME_TAKEN"
+  /** A profile message from a connection that is not signed in. */
+  | "NOT_SIGNED_IN"
+  /** A profile save over the size limits, e.g. too many stats or too long a ledger. */
+  | "PROFILE_TOO_LARGE"
+  | "INTERNAL"
+  /** The engine refused the action; the code narrows down why and the message explains it. */
+  | GameErrorCode;
+
+export type ServerMessage =
+  /** `serverTime` lets the client line its clock up with turn deadlines. */
+  | { type: "welcome"; version: number; serverTime: number }
+  | { type: "state"; state: GameState; spectators: number }
+  | { type: "chat"; message: ChatMessage }
+  | { type: "joined"; roomId: string; playerId: string; token: string }
+  | { type: "watching"; roomId: string }
+  | { type: "rooms"; rooms: RoomSummary[] }
+  /** The seat's own chip ledger, sent to that client alone whenever it changes. */
+  | { type: "ledger"; entries: LedgerEntry[] }
+  | { type: "sessionExpired"; message: string }
+  /** The token is only sent here; keep it to sign back in without the passphrase. */
+  | { type: "signedIn"; username: string; token: string }
+  /**
+   * The stored profile, after signing in, when another device saved, or in answer to a save that was
+   * behind. `data` is `null` for a new profile; `applied` holds the ids of the latest saves.
+   */
+  | { type: "profile"; data: ProfileData | null; revision: number; applied: string[] }
+  | { type: "profileSaved"; id: string; revision: number }
+  | { type: "signedOut"; message: string }
+  | { type: "error"; code: ErrorCode; message: string };
+
+/** A frame that could not be accepted, with a code the other side can act on. */
+export class ProtocolError extends Error {
+  name = "ProtocolError";
+  readonly code: ErrorCode;
+
+  constructor(code: ErrorCode, message: string) {
+    super(message);
+    this.code = code;
+  }
+}
+
+// ===================== Parsing =====================
+const SIMPLE_MOVES = [
+  "start",
+  "insurance",
+  "declineInsurance",
+  "evenMoney",
+  "hit",
+  "stand",
+  "double",
+  "split",
+  "surrender",
+  "rebuy",
+  "forceStart",
+  "leave",
+] as const;
+const ERROR_CODES: ErrorCode[] = [
+  "BAD_MESSAGE",
+  "VERSION_MISMATCH",
+  "NOT_SEATED",
+  "ROOM_NOT_FOUND",
+  "AUTH_FAILED",
+  "USERNAME_TAKEN",
+  "NOT_SIGNED_IN",
+  "PROFILE_TOO_LARGE",
+  "INTERNAL",
+  "ROOM_FULL",
+  "ROOM_LOCKED",
+  "WRONG_PASSWORD",
+  "NOT_HOST",
+  "INSUFFICIENT_STACK",
+  "NOT_YOUR_TURN",
+  "INVALID_BET",
+  "GAME_RULE",
+];
+
+/** Turns JSON parse and shape failures into a `BAD_MESSAGE` error that names the field, and oversize profiles into `PROFILE_TOO_LARGE`. */
+function parseFrame<T>(raw: string, read: (data: Record<string, unknown>) => T): T {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    throw new ProtocolError("BAD_MESSAGE", "Malformed message");
+  }
+  try {
+    return read(expectRecord(data, "message"));
+  } catch (err) {
+    if (err instanceof TooLargeError) throw new ProtocolError("PROFILE_TOO_LARGE", err.message);
+    if (err instanceof ValidationError) throw new ProtocolError("BAD_MESSAGE", err.message);
+    throw err;
+  }
+}
+
+export function parseClientMessage(raw: string): ClientMessage {
+  return parseFrame(raw, (msg): ClientMessage => {
+    const type = expectString(msg.type, "message.type");
+    const payload = () => expectRecord(msg.payload, `${type}.payload`);
+
+    switch (type) {
+      case "hello":
+        return { type, version: expectNumber(msg.version, "hello.version") };
+      case "join": {
+        const p = payload();
+        return {
+          type,
+          roomId: expectString(msg.roomId, "join.roomId"),
+          payload: {
+            name: expectString(p.name, "join.payload.name"),
+            clientId: expectString(p.clientId, "join.payload.clientId"),
+            ...(isRecord(p.rules) && { rules: p.rules as Partial<TableRules> }),
+            ...(p.password !== undefined && { password: expectString(p.password, "join.payload.password") }),
+            ...(p.isPublic !== undefined && { isPublic: expectBoolean(p.isPublic, "join.payload.isPublic") }),
+          },
+        };
+      }
+      case "resume": {
+        const p = payload();
+        return {
+          type,
+          roomId: expectString(msg.roomId, "resume.roomId"),
+          payload: { clientId: expectString(p.clientId, "resume.payload.clientId"), token: expectString(p.token, "resume.payload.token") },
+        };
+      }
+      case "watch":
+        return { type, roomId: expectString(msg.roomId, "watch.roomId") };
+      case "listRooms":
+      case "unlistRooms":
+        return { type };
+      case "sit": {
+        const p = payload();
+        return {
+          type,
+          payload: {
+            name: expectString(p.name, "sit.payload.name"),
+            clientId: expectString(p.clientId, "sit.payload.clientId"),
+            ...(p.password !== undefined && { password: expectString(p.password, "sit.payload.password") }),
+          },
+        };
+      }
+      case "chat":
+        return { type, payload: { text: expectString(payload().text, "chat.payload.text") } };
+      case "signUp":
+      case "signIn": {
+        const p = payload();
+        return {
+          type,
+          payload: { username: expectString(p.username, `${type}.payload.username`), passphrase: expectString(p.passphrase, `${type}.payload.passphrase`) },
+        };
+      }
+      case "resumeProfile":
+        return { type, payload: { token: expectString(payload().token, "resumeProfile.payload.token") } };
+      case "signOut":
+        return { type };
+      case "saveProfile": {
+        const p = payload();
+        return {
+          type,
+          payload: {
+            id: expectString(p.id, "saveProfile.payload.id"),
+            revision: expectNumber(p.revision, "saveProfile.payload.revision"),
+            data: validateProfileData(p.data, "saveProfile.payload.data"),
+          },
+        };
+      }
+      case "ready":
+        return { type, payload: { ready: expectBoolean(payload().ready, "ready.payload.ready") } };
+      case "bet":
+        return { type, payload: { value: expectNumber(payload().value, "bet.payload.value") } };
+      case "sideBet": {
+        const p = payload();
+        if (!SIDE_BET_KINDS.includes(p.kind as SideBetKind)) fail("sideBet.payload.kind", `unknown side bet "${String(p.kind)}"`);
+        return { type, payload: { kind: p.kind as SideBetKind, value: expectNumber(p.value, "sideBet.payload.value") } };
+      }
+      case "clientSeed":
+        return { type, payload: { seed: expectString(payload().seed, "clientSeed.payload.seed") } };
+      case "kick":
+      case "transferHost":
+        return { type, payload: { targetId: expectString(payload().targetId, `${type}.payload.targetId`) } };
+      case "lock":
+        return { type, payload: { locked: expectBoolean(payload().locked, "lock.payload.locked") } };
+      case "setPassword": {
+        const password = payload().password;
+        return { type, payload: { password: password === null ? null : expectString(password, "setPassword.payload.password") } };
+      }
+      case "moveSeat": {
+        const p = payload();
+        return {
+          type,
+          payload: { targetId: expectString(p.targetId, "moveSeat.payload.targetId"), seat: expectNumber(p.seat, "moveSeat.payload.seat") },
+        };
+      }
+      default:
+        if ((SIMPLE_MOVES as readonly string[]).includes(type)) return { type: type as (typeof SIMPLE_MOVES)[number] };
+        return fail("message.type", `unknown message "${type}"`);
+    }
+  });
+}
+
+export function parseServerMessage(raw: string): ServerMessage {
+  return parseFrame(raw, (msg): ServerMessage => {
+    const type = expectString(msg.type, "message.type");
+
+    switch (type) {
+      case "welcome":
+        return {
+          type,
+          version: expectNumber(msg.version, "welcome.version"),
+          serverTime: expectNumber(msg.serverTime, "welcome.serverTime"),
+        };
+      case "state":
+        return { type, state: validateGameState(msg.state, "state"), spectators: expectNumber(msg.spectators, "state.spectators") };
+      case "chat": {
+        const m = expectRecord(msg.message, "chat.message");
+        return {
+          type,
+          message: {
+            id: expectString(m.id, "chat.message.id"),
+            playerId: expectString(m.playerId, "chat.message.playerId"),
+            playerName: expectString(m.playerName, "chat.message.playerName"),
+            text: expectString(m.text, "chat.message.text"),
+            timestamp: expectNumber(m.timestamp, "chat.message.timestamp"),
+          },
+        };
+      }
+      case "joined":
+        return {
+          type,
+          roomId: expectString(msg.roomId, "joined.roomId"),
+          playerId: expectString(msg.playerId, "joined.playerId"),
+          token: expectString(msg.token, "joined.token"),
+        };
+      case "watching":
+        return { type, roomId: expectString(msg.roomId, "watching.roomId") };
+      case "rooms":
+        return { type, rooms: expectArray(msg.rooms, "rooms.rooms").map((r, idx) => validateRoomSummary(r, `rooms.rooms[${idx}]`)) };
+      case "ledger":
+        return { type, entries: validateLedger(msg.entries, "ledger.entries") };
+      case "sessionExpired":
+        return { type, message: expectString(msg.message, "sessionExpired.message") };
+      case "signedIn":
+        return { type, username: expectString(msg.username, "signedIn.username"), token: expectString(msg.token, "signedIn.token") };
+      case "profile":
+        return {
+          type,
+          data: msg.data === null ? null : validateProfileData(msg.data, "profile.data"),
+          revision: expectNumber(msg.revision, "profile.revision"),
+          applied: expectArray(msg.applied, "profile.applied").map((id, idx) => expectString(id, `profile.applied[${idx}]`)),
+        };
+      case "profileSaved":
+        return { type, id: expectString(msg.id, "profileSaved.id"), revision: expectNumber(msg.revision, "profileSaved.revision") };
+      case "signedOut":
+        return { type, message: expectString(msg.message, "signedOut.message") };
+      case "error": {
+        const code = ERROR_CODES.includes(msg.code as ErrorCode) ? (msg.code as ErrorCode) : "INTERNAL";
+        return { type, code, message: expectString(msg.message, "error.message") };
+      }
+      default:
+        return fail("message.type", `unknown message "${type}"`);
+    }
+  });
+}
+
+function validateRoomSummary(value: unknown, path: string): RoomSummary {
+  const room = expectRecord(value, path);
+  return {
+    code: expectString(room.code, `${path}.code`),
+    rules: normalizeRules(expectRecord(room.rules, `${path}.rules`) as Partial<TableRules>),
+    players: expectNumber(room.players, `${path}.players`),
+    spectators: expectNumber(room.spectators, `${path}.spectators`),
+    phase: validatePhase(room.phase, `${path}.phase`),
+    hasPassword: room.hasPassword === true,
+  };
+}
@@ -0,0 +1,109 @@
+import type { PerfectPairsPays, TableRules, TwentyOnePlus3Pays } from "./types.ts";
+
+/** Common side bet pay tables, named the way they are posted at the table. */
+export const PERFECT_PAIRS_TABLES: Record<string, PerfectPairsPays> = {
+  "6/12/25": { mixed: 6, colored: 12, perfect: 25 },
+  "5/10/30": { mixed: 5, colored: 10, perfect: 30 },
+  "5/12/25": { mixed: 5, colored: 12, perfect: 25 },
+};
+
+export const TWENTY_ONE_PLUS_3_TABLES: Record<string, TwentyOnePlus3Pays> = {
+  "5/10/30/40/100": { flush: 5, straight: 10, threeOfAKind: 30, straightFlush: 40, suitedTrips: 100 },
+  "9 to 1 on all": { flush: 9, straight: 9, threeOfAKind: 9, straightFlush: 9, suitedTrips: 9 },
+  "5/10/25/40/50": { flush: 5, straight: 10, threeOfAKind: 25, straightFlush: 40, suitedTrips: 50 },
+};
+
+export const DEFAULT_RULES: TableRules = {
+  decks: 6,
+  dealerHitsSoft17: false,
+  blackjackPayout: "3:2",
+  doubleOn: "any",
+  maxHands: 4,
+  splitAcesOneCard: true,
+  resplitAces: false,
+  doubleAfterSplit: true,
+  surrender: "late",
+  minBet: 5,
+  maxBet: 1000,
+  maxSeats: 8,
+  turnSeconds: 20,
+  idleTimeouts: 3,
+  buyIn: 1000,
+  maxRebuys: 3,
+  perfectPairs: PERFECT_PAIRS_TABLES["6/12/25"],
+  twentyOnePlus3: TWENTY_ONE_PLUS_3_TABLES["5/10/30/40/100"],
+  sideBetMax: 100,
+};
+
+/** Named starting points for the room creation form. */
+export const RULE_PRESETS: Record<string, TableRules> = {
+  Classic: DEFAULT_RULES,
+  "Vegas Strip": { ...DEFAULT_RULES, decks: 4, surrender: "none", minBet: 25, maxBet: 5000 },
+  Downtown: { ...DEFAULT_RULES, decks: 2, dealerHitsSoft17: true, doubleOn: "10-11", surrender: "none" },
+  "Single Deck 6:5": { ...DEFAULT_RULES, decks: 1, dealerHitsSoft17: true, blackjackPayout: "6:5", maxHands: 2, surrender: "none" },
+  "High Roller": { ...DEFAULT_RULES, minBet: 100, maxBet: 10000, maxSeats: 4, surrender: "early", resplitAces: true, buyIn: 10000, sideBetMax: 1000 },
+};
+
+const clampInt = (value: unknown, min: number, max: number, fallback: number) => {
+  const n = Math.floor(Number(value));
+  return Number.isFinite(n) ? Math.min(max, Math.max(min, n)) : fallback;
+};
+
+/** Every entry clamped to 0-1000 to 1; anything that isn't an object turns the bet off. */
+function payTable<T extends object>(input: unknown, fallback: T): T | null {
+  if (input === null || typeof input !== "object") return input === undefined ? fallback : null;
+  const table = input as Record<string, unknown>;
+  const entries = Object.entries(fallback).map(([key, pays]) => [key, clampInt(table[key], 0, 1000, pays)]);
+  return Object.fromEntries(entries) as T;
+}
+
+const oneOf = <T extends string>(value: unknown, options: readonly T[], fallback: T): T =>
+  options.includes(value as T) ? (value as T) : fallback;
+
+/** Turns untrusted input (a join payload, saved settings) into a complete, sane rule set. */
+export function normalizeRules(input: Partial<TableRules> = {}): TableRules {
+  const d = DEFAULT_RULES;
+  const minBet = clampInt(input.minBet, 1, 10000, d.minBet);
+  return {
+    decks: clampInt(input.decks, 1, 8, d.decks),
+    dealerHitsSoft17: typeof input.dealerHitsSoft17 === "boolean" ? input.dealerHitsSoft17 : d.dealerHitsSoft17,
+    blackjackPayout: oneOf(input.blackjackPayout, ["3:2", "6:5"] as const, d.blackjackPayout),
+    doubleOn: oneOf(input.doubleOn, ["any", "9-11", "10-11"] as const, d.doubleOn),
+    maxHands: clampInt(input.maxHands, 1, 4, d.maxHands),
+    splitAcesOneCard: typeof input.splitAcesOneCard === "boolean" ? input.splitAcesOneCard : d.splitAcesOneCard,
+    resplitAces: typeof input.resplitAces === "boolean" ? input.resplitAces : d.resplitAces,
+    doubleAfterSplit: typeof input.doubleAfterSplit === "boolean" ? input.doubleAfterSplit : d.doubleAfterSplit,
+    surrender: oneOf(input.surrender, ["none", "late", "early"] as const, d.surrender),
+    minBet,
+    maxBet: clampInt(input.maxBet, minBet, 100000, Math.max(minBet, d.maxBet)),
+    maxSeats: clampInt(input.maxSeats, 1, 8, d.maxSeats),
+    turnSeconds: clampInt(input.turnSeconds, 5, 120, d.turnSeconds),
+    idleTimeouts: clampInt(input.idleTimeouts, 1, 10, d.idleTimeouts),
+    buyIn: clampInt(input.buyIn, minBet, 1_000_000, Math.max(minBet, d.buyIn)),
+    maxRebuys: clampInt(input.maxRebuys, 0, 99, d.maxRebuys),
+    perfectPairs: payTable(input.perfectPairs, PERFECT_PAIRS_TABLES["6/12/25"]),
+    twentyOnePlus3: payTable(input.twentyOnePlus3, TWENTY_ONE_PLUS_3_TABLES["5/10/30/40/100"]),
+    sideBetMax: clampInt(input.sideBetMax, 1, 100000, d.sideBetMax),
+  };
+}
+
+/** The rules on one line, e.g. "6 decks, S17, blackjack pays 3:2, DAS, late surrender, $5-$1000". */
+export const describeRules = (rules: TableRules) =>
+  [
+    `${rules.decks} deck${rules.decks > 1 ? "s" : ""}`,
+    rules.dealerHitsSoft17 ? "H17" : "S17",
+    `blackjack pays ${rules.blackjackPayout}`,
+    rules.doubleAfterSplit ? "DAS" : "no DAS",
+    rules.surrender === "none" ? "no surrender" : `${rules.surrender} surrender`,
+    `$${rules.minBet}-$${rules.maxBet}`,
+  ].join(", ");
+
+/** Winnings on a blackjack, not counting the returned stake. */
+export const blackjackWin = (rules: TableRules, bet: number) =>
+  Math.floor(bet * (rules.blackjackPayout === "6:5" ? 1.2 : 1.5));
+
+export function canDoubleOnTotal(rules: TableRules, total: number): boolean {
+  if (rules.doubleOn === "9-11") return total >= 9 && total <= 11;
+  if (rules.doubleOn === "10-11") return total === 10 || total === 11;
+  return true;
+}
@@ -0,0 +1,59 @@
+import { RANKS } from "./cards.ts";
+import type { Card, PerfectPairsPays, SideBetKind, TableRules, TwentyOnePlus3Pays } from "./types.ts";
+
+// Side bets are settled as soon as the deal is done, from the player's first two cards
+// (and for 21+3 the dealer's upcard), before anyone acts.
+
+export const SIDE_BET_KINDS: SideBetKind[] = ["perfectPairs", "twentyOnePlus3"];
+
+export const SIDE_BET_NAMES: Record<SideBetKind, string> = {
+  perfectPairs: "Perfect Pairs",
+  twentyOnePlus3: "21+3",
+};
+
+/** A winning side bet hand: what to call it, and the pay table entry it is paid from. */
+export interface SideBetHit {
+  name: string;
+  pays: number;
+}
+
+const isRed = (card: Card) => card.suit === "♥" || card.suit === "♦";
+
+export function perfectPairsHit(cards: Card[], pays: PerfectPairsPays): SideBetHit | null {
+  const [a, b] = cards;
+  if (!a || !b || a.rank !== b.rank) return null;
+  if (a.suit === b.suit) return { name: "Perfect pair", pays: pays.perfect };
+  if (isRed(a) === isRed(b)) return { name: "Colored pair", pays: pays.colored };
+  return { name: "Mixed pair", pays: pays.mixed };
+}
+
+/** Three ranks in a row. Aces play high or low, but a straight doesn't wrap round (K-A-2). */
+function isStraight(cards: Card[]): boolean {
+  const idx = cards.map(c => RANKS.indexOf(c.rank)).sort((x, y) => x - y);
+  const run = (v: number[]) => v[1] === v[0] + 1 && v[2] === v[1] + 1;
+  // With the ace moved above the king: Q-K-A.
+  return run(idx) || (idx[0] === 0 && run([idx[1], idx[2], RANKS.length]));
+}
+
+export function twentyOnePlus3Hit(cards: Card[], upcard: Card | undefined, pays: TwentyOnePlus3Pays): SideBetHit | null {
+  if (cards.length < 2 || !upcard) return null;
+  const three = [cards[0], cards[1], upcard];
+  const flush = three.every(c => c.suit === three[0].suit);
+  const trips = three.every(c => c.rank === three[0].rank);
+  const straight = isStraight(three);
+
+  if (trips && flush) return { name: "Suited trips", pays: pays.suitedTrips };
+  if (straight && flush) return { name: "Straight flush", pays: pays.straightFlush };
+  if (trips) return { name: "Three of a kind", pays: pays.threeOfAKind };
+  if (straight) return { name: "Straight", pays: pays.straight };
+  if (flush) return { name: "Flush", pays: pays.flush };
+  return null;
+}
+
+/** The winning hand for a side bet, or `null` if it lost or the room doesn't offer it. */
+export function sideBetHit(kind: SideBetKind, rules: TableRules, cards: Card[], upcard: Card | undefined): SideBetHit | null {
+  if (kind === "perfectPairs") return rules.perfectPairs && perfectPairsHit(cards, rules.perfectPairs);
+  return rules.twentyOnePlus3 && twentyOnePlus3Hit(cards, upcard, rules.twentyOnePlus3);
+}
+
+export const offersSideBet = (rules: TableRules, kind: SideBetKind) => rules[kind] !== null;
@@ -0,0 +1,120 @@
+import { calculateValue, cardValue, isSoft } from "./cards.ts";
+import type { Card, PlayerActionType, TableRules } from "./types.ts";
+
+export type Decision = "hit" | "stand" | "double" | "split" | "surrender";
+export type HandCategory = "hard" | "soft" | "pair";
+
+// Chart codes: H hit, S stand, D double (else hit), Ds double (else stand),
+// P split, Ph split if doubling after split is allowed (else hit),
+// R surrender (else hit), Rs surrender (else stand), Rp surrender (else split).
+type Code = "H" | "S" | "D" | "Ds" | "P" | "Ph" | "R" | "Rs" | "Rp";
+
+const DECISIONS = ["hit", "stand", "double", "split", "surrender"] as const;
+export const isDecision = (action: PlayerActionType): action is Decision =>
+  (DECISIONS as readonly string[]).includes(action);
+
+/** Treats two cards of the same value (two tens included) as a pair, matching the split rule. */
+export function handCategory(cards: Card[]): HandCategory {
+  if (cards.length === 2 && cardValue(cards[0]) === cardValue(cards[1])) return "pair";
+  return isSoft(cards) ? "soft" : "hard";
+}
+
+export function describeHand(cards: Card[], upcard?: Card): string {
+  const category = handCategory(cards);
+  const label =
+    category === "pair"
+      ? `Pair of ${cards[0].rank === "A" ? "Aces" : `${cardValue(cards[0])}s`}`
+      : `${category === "soft" ? "Soft" : "Hard"} ${calculateValue(cards)}`;
+  return upcard ? `${label} vs ${upcard.rank}` : label;
+}
+
+/**
+ * The basic-strategy play for `cards` against the dealer's upcard under `rules`, limited to what
+ * `legal` allows. Based on the standard multi-deck charts; early surrender uses the late chart.
+ */
+export function recommendPlay(cards: Card[], upcard: Card, rules: TableRules, legal: PlayerActionType[]): Decision {
+  const up = cardValue(upcard);
+  const canDouble = legal.includes("double");
+  const canSurrender = legal.includes("surrender");
+
+  let code: Code | null = null;
+  if (legal.includes("split") && handCategory(cards) === "pair") code = pairCode(cardValue(cards[0]), up, rules);
+  if (!code || (code === "Ph" && !rules.doubleAfterSplit)) {
+    code = isSoft(cards) ? softCode(calculateValue(cards), up, rules) : hardCode(calculateValue(cards), up, rules);
+  }
+
+  const decision = fromCode(code, canDouble, canSurrender);
+  // Split aces under the one-card rule can only stand.
+  return legal.includes(decision) ? decision : "stand";
+}
+
+function fromCode(code: Code, canDouble: boolean, canSurrender: boolean): Decision {
+  switch (code) {
+    case "P":
+    case "Ph":
+      return "split";
+    case "D":
+      return canDouble ? "double" : "hit";
+    case "Ds":
+      return canDouble ? "double" : "stand";
+    case "R":
+      return canSurrender ? "surrender" : "hit";
+    case "Rs":
+      return canSurrender ? "surrender" : "stand";
+    case "Rp":
+      return canSurrender ? "surrender" : "split";
+    case "S":
+      return "stand";
+    default:
+      return "hit";
+  }
+}
+
+/** `null` means "don't split, play it as a total". */
+function pairCode(value: number, up: number, rules: TableRules): Code | null {
+  switch (value) {
+    case 11:
+      return "P";
+    case 10:
+      return null;
+    case 9:
+      return up === 7 || up >= 10 ? null : "P";
+    case 8:
+      return up === 11 && rules.dealerHitsSoft17 ? "Rp" : "P";
+    case 7:
+      return up <= 7 ? "P" : null;
+    case 6:
+      return up === 2 ? "Ph" : up <= 6 ? "P" : null;
+    case 5:
+      return null;
+    case 4:
+      return up === 5 || up === 6 ? "Ph" : null;
+    default:
+      return up <= 3 ? "Ph" : up <= 7 ? "P" : null;
+  }
+}
+
+function softCode(total: number, up: number, rules: TableRules): Code {
+  if (total >= 20) return "S";
+  if (total === 19) return up === 6 && rules.dealerHitsSoft17 ? "Ds" : "S";
+  if (total === 18) {
+    if (up === 2) return rules.dealerHitsSoft17 ? "Ds" : "S";
+    if (up <= 6) return "Ds";
+    return up <= 8 ? "S" : "H";
+  }
+  if (total === 17) return up >= 3 && up <= 6 ? "D" : "H";
+  if (total >= 15) return up >= 4 && up <= 6 ? "D" : "H";
+  return up >= 5 && up <= 6 ? "D" : "H";
+}
+
+function hardCode(total: number, up: number, rules: TableRules): Code {
+  if (total >= 17) return total === 17 && up === 11 && rules.dealerHitsSoft17 ? "Rs" : "S";
+  if (total === 16) return up >= 9 ? "R" : up <= 6 ? "S" : "H";
+  if (total === 15) return up === 10 || (up === 11 && rules.dealerHitsSoft17) ? "R" : up <= 6 ? "S" : "H";
+  if (total >= 13) return up <= 6 ? "S" : "H";
+  if (total === 12) return up >= 4 && up <= 6 ? "S" : "H";
+  if (total === 11) return up === 11 && !rules.dealerHitsSoft17 ? "H" : "D";
+  if (total === 10) return up <= 9 ? "D" : "H";
+  if (total === 9) return up >= 3 && up <= 6 ? "D" : "H";
+  return "H";
+}
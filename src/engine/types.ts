@@ -0,0 +1,240 @@
+// ===================== Cards =====================
+export type Suit = "♠" | "♥" | "♦" | "♣";
+export type Rank = "A" | "2" | "3" | "4" | "5" | "6" | "7" | "8" | "9" | "10" | "J" | "Q" | "K";
+export type Card = { id: string; suit: Suit; rank: Rank };
+
+// ===================== Table =====================
+export type HandResult = "WIN" | "LOSE" | "PUSH" | "BUST" | "BLACKJACK" | "SURRENDER";
+
+export interface Hand {
+  cards: Card[];
+  bet: number;
+  status: string;
+  /** Set on both halves of a split; a two-card 21 on a split hand is not a blackjack. */
+  split: boolean;
+  /** No more decisions on this hand (stood, busted, doubled, 21 or a natural). */
+  done: boolean;
+  result?: HandResult;
+}
+
+export interface Player {
+  id: string;
+  name: string;
+  stack: number;
+  /** Wager placed in the lobby. Once cards are out each hand carries its own bet. */
+  bet: number;
+  insuranceBet?: number;
+  /** Set when the dealer peeks under an ace: insurance pays 2:1 on a dealer blackjack. */
+  insuranceResult?: "WIN" | "LOSE";
+  ready: boolean;
+  hands: Hand[];
+  status: string;
+  /** Turns in a row that ran out of time. Any move of their own resets it. */
+  missedTurns: number;
+  /** Left out of rounds after too many missed turns, until they bet or ready up again. */
+  sittingOut: boolean;
+  /** Rebuys taken at this table so far. */
+  rebuys: number;
+  /** Side bets placed in the lobby, settled right after the deal. */
+  sideBets: Partial<Record<SideBetKind, SideBet>>;
+}
+
+// ===================== Side bets =====================
+export type SideBetKind = "perfectPairs" | "twentyOnePlus3";
+
+export interface SideBet {
+  stake: number;
+  /** Set once settled: the hand it paid on ("Mixed pair", "Flush", ...), or `null` if it lost. */
+  outcome?: string | null;
+  /** Winnings on top of the returned stake; 0 for a loss. */
+  win?: number;
+}
+
+/** Perfect Pairs pay table, each entry "to 1". */
+export interface PerfectPairsPays {
+  mixed: number;
+  colored: number;
+  perfect: number;
+}
+
+/** 21+3 pay table, each entry "to 1". */
+export interface TwentyOnePlus3Pays {
+  flush: number;
+  straight: number;
+  threeOfAKind: number;
+  straightFlush: number;
+  suitedTrips: number;
+}
+
+// ===================== Bankroll =====================
+export type LedgerKind =
+  | "buyIn"
+  | "rebuy"
+  | "bet"
+  | "double"
+  | "split"
+  | "insurance"
+  | "sideBet"
+  | "payout"
+  | "push"
+  | "surrender";
+
+/** One debit (negative `amount`) or credit to a player's stack. */
+export interface LedgerEntry {
+  kind: LedgerKind;
+  amount: number;
+  /** The stack right after this entry. */
+  balance: number;
+  at: number;
+}
+
+/** Everything a player takes with them when they leave a seat, so they can sit back down with it. */
+export interface Bankroll {
+  stack: number;
+  rebuys: number;
+  ledger: LedgerEntry[];
+}
+
+export interface TableRules {
+  /** Decks in the shoe. */
+  decks: number;
+  /** Dealer draws on soft 17 (H17) instead of standing (S17). */
+  dealerHitsSoft17: boolean;
+  blackjackPayout: "3:2" | "6:5";
+  /** Two-card totals a player may double on. */
+  doubleOn: "any" | "9-11" | "10-11";
+  /** Most hands one player can hold through splits and re-splits. */
+  maxHands: number;
+  /** Split aces receive exactly one card each. */
+  splitAcesOneCard: boolean;
+  /** A split ace that receives another ace may be split again. */
+  resplitAces: boolean;
+  /** Doubling is allowed on hands created by a split. */
+  doubleAfterSplit: boolean;
+  /**
+   * `late`: give up half the bet on the first two cards, after the dealer has checked for blackjack.
+   * `early`: the same, but offered before the peek, while the upcard is an Ace or a ten.
+   */
+  surrender: "none" | "late" | "early";
+  minBet: number;
+  maxBet: number;
+  maxSeats: number;
+  /** Seconds each player gets per decision. */
+  turnSeconds: number;
+  /** Missed turns in a row before a player is sat out. */
+  idleTimeouts: number;
+  /** The stack a new player sits down with, and what a rebuy tops them back up to. */
+  buyIn: number;
+  /** Rebuys each player may take once they can't cover the minimum bet. 0 means none. */
+  maxRebuys: number;
+  /** Pay tables for the side bets; `null` where the room doesn't offer one. */
+  perfectPairs: PerfectPairsPays | null;
+  twentyOnePlus3: TwentyOnePlus3Pays | null;
+  /** Most a player can stake on each side bet. */
+  sideBetMax: number;
+}
+
+// ===================== Fairness =====================
+/** The seeds behind one shoe. `serverSeed` stays `null` until the shoe is finished and it is revealed. */
+export interface ShoeSeeds {
+  shoeNo: number;
+  decks: number;
+  /** SHA-256 of the server seed, published before the shoe was shuffled. */
+  commitment: string;
+  /** The seated players' client seeds in seat order, joined with `:`. */
+  clientSeed: string;
+  serverSeed: string | null;
+}
+
+export interface Fairness {
+  /** The shoe being dealt from, once there is one. */
+  current: ShoeSeeds | null;
+  /** Commitment to the server seed of the next shoe. Client seeds sent from now on go into that shoe. */
+  nextCommitment: string;
+  /** Client seeds for the next shoe, by player id. */
+  clientSeeds: Record<string, string>;
+  /** Finished shoes with their server seeds, newest first. */
+  revealed: ShoeSeeds[];
+}
+
+/** INSURANCE is the decision window before the dealer peeks: insurance, and early surrender where allowed. */
+export type Phase = "LOBBY" | "SHUFFLING" | "DEALING" | "INSURANCE" | "PLAYER" | "DEALER" | "RESULT";
+
+/** What every client sees. The dealer's hole card is masked until it is turned over. */
+export interface GameState {
+  code: string;
+  players: Player[];
+  dealer: { cards: Card[] };
+  phase: Phase;
+  turnIdx: number;
+  /** Hand of `players[turnIdx]` that is being played. */
+  handIdx: number;
+  rules: TableRules;
+  /** When the player on turn runs out of time (epoch ms), or `null` while nobody is on the clock. */
+  turnDeadline: number | null;
+  /** The seat that moderates the room: the first player in, passed on when they leave. */
+  hostId: string | null;
+  /** New players are turned away. Seated players and spectators are unaffected. */
+  locked: boolean;
+  /** Joining needs the room password. The password itself is never sent to clients. */
+  hasPassword: boolean;
+  fairness: Fairness;
+}
+
+/** The full table held by whoever runs the game, including the undealt shoe. */
+export interface TableState extends GameState {
+  shoe: Card[];
+  shoeNo: number;
+  password: string | null;
+  /** Every chip movement per seat, keyed by player id. Only ever sent to the seat it belongs to. */
+  ledgers: Record<string, LedgerEntry[]>;
+  /** Secret until revealed: the seed the current shoe was shuffled with, and the one committed to for the next. */
+  serverSeeds: { current: string | null; next: string };
+}
+
+// ===================== Actions =====================
+export type PlayerAction =
+  /** `bankroll` is what the host remembers from an earlier seat; without one the player buys in fresh. */
+  | { type: "join"; playerId: string; name: string; password?: string; bankroll?: Bankroll }
+  | { type: "leave"; playerId: string }
+  | { type: "ready"; playerId: string; ready: boolean }
+  | { type: "bet"; playerId: string; value: number }
+  | { type: "start"; playerId: string }
+  | { type: "insurance"; playerId: string }
+  | { type: "declineInsurance"; playerId: string }
+  /** A blackjack against an ace taken at 1:1 before the peek. */
+  | { type: "evenMoney"; playerId: string }
+  | { type: "hit"; playerId: string }
+  | { type: "stand"; playerId: string }
+  | { type: "double"; playerId: string }
+  | { type: "split"; playerId: string }
+  | { type: "surrender"; playerId: string }
+  | { type: "rebuy"; playerId: string }
+  | { type: "sideBet"; playerId: string; kind: SideBetKind; value: number }
+  /** The player's contribution to the next shoe's shuffle. */
+  | { type: "clientSeed"; playerId: string; seed: string }
+  | HostAction;
+
+/** Moderation only the room host may do. `targetId` is the seat it applies to. */
+export type HostAction =
+  | { type: "kick"; playerId: string; targetId: string }
+  | { type: "lock"; playerId: string; locked: boolean }
+  | { type: "setPassword"; playerId: string; password: string | null }
+  | { type: "moveSeat"; playerId: string; targetId: string; seat: number }
+  | { type: "forceStart"; playerId: string }
+  | { type: "transferHost"; playerId: string; targetId: string };
+
+/** Steps the table takes on its own; the host dispatches them on a timer (see `autoAction`). */
+export type SystemAction =
+  /** Shuffles with the committed seed and commits to `nextServerSeed` for the shoe after. */
+  | { type: "shuffle"; nextServerSeed: string }
+  | { type: "deal" }
+  | { type: "dealerDraw" }
+  | { type: "settle" }
+  | { type: "reset" }
+  /** The player on turn ran out of time: they stand, or decline insurance. */
+  | { type: "timeout" };
+
+export type Action = PlayerAction | SystemAction;
+
+export type PlayerActionType = PlayerAction["type"];
@@ -0,0 +1,209 @@
+import { RANKS, SUITS } from "./cards.ts";
+import { normalizeRules } from "./rules.ts";
+import { SIDE_BET_KINDS } from "./sideBets.ts";
+import type {
+  Bankroll,
+  Card,
+  Fairness,
+  GameState,
+  Hand,
+  HandResult,
+  LedgerEntry,
+  LedgerKind,
+  Phase,
+  Player,
+  ShoeSeeds,
+  SideBet,
+  SideBetKind,
+  TableRules,
+} from "./types.ts";
+
+// Runtime checks for data that crosses a trust boundary: the wire, imported files, storage.
+
+/** `path` points at the offending field, e.g. `state.players[1].hands[0].cards`. */
+export class ValidationError extends Error {
+  name = "ValidationError";
+  readonly path: string;
+  readonly problem: string;
+
+  constructor(path: string, problem: string) {
+    super(`${path}: ${problem}`);
+    this.path = path;
+    this.problem = problem;
+  }
+}
+
+/** Well formed, but more than the receiver is willing to keep. */
+export class TooLargeError extends ValidationError {
+  name = "TooLargeError";
+}
+
+export const PHASES: Phase[] = ["LOBBY", "SHUFFLING", "DEALING", "INSURANCE", "PLAYER", "DEALER", "RESULT"];
+const RESULTS: HandResult[] = ["WIN", "LOSE", "PUSH", "BUST", "BLACKJACK", "SURRENDER"];
+const LEDGER_KINDS: LedgerKind[] = ["buyIn", "rebuy", "bet", "double", "split", "insurance", "sideBet", "payout", "push", "surrender"];
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+export function fail(path: string, problem: string): never {
+  throw new ValidationError(path, problem);
+}
+
+export function failTooLarge(path: string, problem: string): never {
+  throw new TooLargeError(path, problem);
+}
+
+export function expectArray(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) fail(path, "expected a list");
+  return value;
+}
+
+export function expectRecord(value: unknown, path: string): Record<string, unknown> {
+  if (!isRecord(value)) fail(path, "expected an object");
+  return value;
+}
+
+export function expectString(value: unknown, path: string): string {
+  if (typeof value !== "string") fail(path, "expected text");
+  return value;
+}
+
+export function expectNumber(value: unknown, path: string): number {
+  if (typeof value !== "number" || !Number.isFinite(value)) fail(path, "expected a number");
+  return value;
+}
+
+export function expectBoolean(value: unknown, path: string): boolean {
+  if (typeof value !== "boolean") fail(path, "expected true or false");
+  return value;
+}
+
+export function validatePhase(value: unknown, path: string): Phase {
+  if (!PHASES.includes(value as Phase)) fail(path, `unknown phase "${String(value)}"`);
+  return value as Phase;
+}
+
+export function validateCards(value: unknown, path: string): Card[] {
+  return expectArray(value, path).map((c, idx) => {
+    const card = expectRecord(c, `${path}[${idx}]`);
+    if (!SUITS.includes(card.suit as Card["suit"]) || !RANKS.includes(card.rank as Card["rank"])) {
+      fail(`${path}[${idx}]`, "not a playing card");
+    }
+    return { id: expectString(card.id, `${path}[${idx}].id`), suit: card.suit, rank: card.rank } as Card;
+  });
+}
+
+function validateHand(value: unknown, path: string): Hand {
+  const hand = expectRecord(value, path);
+  if (hand.result !== undefined && !RESULTS.includes(hand.result as HandResult)) {
+    fail(`${path}.result`, `unknown result "${String(hand.result)}"`);
+  }
+  return {
+    cards: validateCards(hand.cards, `${path}.cards`),
+    bet: expectNumber(hand.bet, `${path}.bet`),
+    status: typeof hand.status === "string" ? hand.status : "",
+    split: hand.split === true,
+    done: hand.done === true,
+    ...(hand.result !== undefined && { result: hand.result as HandResult }),
+  };
+}
+
+export function validatePlayer(value: unknown, path: string): Player {
+  const player = expectRecord(value, path);
+  return {
+    id: expectString(player.id, `${path}.id`),
+    name: expectString(player.name, `${path}.name`),
+    stack: expectNumber(player.stack, `${path}.stack`),
+    bet: expectNumber(player.bet, `${path}.bet`),
+    insuranceBet: typeof player.insuranceBet === "number" ? player.insuranceBet : 0,
+    ...((player.insuranceResult === "WIN" || player.insuranceResult === "LOSE") && { insuranceResult: player.insuranceResult }),
+    ready: player.ready === true,
+    hands: expectArray(player.hands, `${path}.hands`).map((h, idx) => validateHand(h, `${path}.hands[${idx}]`)),
+    status: typeof player.status === "string" ? player.status : "",
+    missedTurns: typeof player.missedTurns === "number" ? player.missedTurns : 0,
+    sittingOut: player.sittingOut === true,
+    rebuys: typeof player.rebuys === "number" ? player.rebuys : 0,
+    sideBets: isRecord(player.sideBets) ? validateSideBets(player.sideBets, `${path}.sideBets`) : {},
+  };
+}
+
+function validateSideBets(value: Record<string, unknown>, path: string): Partial<Record<SideBetKind, SideBet>> {
+  const sideBets: Partial<Record<SideBetKind, SideBet>> = {};
+  for (const kind of SIDE_BET_KINDS) {
+    if (value[kind] === undefined) continue;
+    const side = expectRecord(value[kind], `${path}.${kind}`);
+    sideBets[kind] = {
+      stake: expectNumber(side.stake, `${path}.${kind}.stake`),
+      ...(side.outcome !== undefined && { outcome: side.outcome === null ? null : expectString(side.outcome, `${path}.${kind}.outcome`) }),
+      ...(side.win !== undefined && { win: expectNumber(side.win, `${path}.${kind}.win`) }),
+    };
+  }
+  return sideBets;
+}
+
+export function validateLedger(value: unknown, path: string): LedgerEntry[] {
+  return expectArray(value, path).map((e, idx) => {
+    const entry = expectRecord(e, `${path}[${idx}]`);
+    if (!LEDGER_KINDS.includes(entry.kind as LedgerKind)) fail(`${path}[${idx}].kind`, `unknown entry "${String(entry.kind)}"`);
+    return {
+      kind: entry.kind as LedgerKind,
+      amount: expectNumber(entry.amount, `${path}[${idx}].amount`),
+      balance: expectNumber(entry.balance, `${path}[${idx}].balance`),
+      at: expectNumber(entry.at, `${path}[${idx}].at`),
+    };
+  });
+}
+
+export function validateBankroll(value: unknown, path = "bankroll"): Bankroll {
+  const bankroll = expectRecord(value, path);
+  const stack = expectNumber(bankroll.stack, `${path}.stack`);
+  if (stack < 0) fail(`${path}.stack`, "cannot be negative");
+  return {
+    stack,
+    rebuys: expectNumber(bankroll.rebuys, `${path}.rebuys`),
+    ledger: validateLedger(bankroll.ledger, `${path}.ledger`),
+  };
+}
+
+/** Checks a public table state field by field. Rules are run through `normalizeRules`. */
+export function validateGameState(value: unknown, path = "state"): GameState {
+  const state = expectRecord(value, path);
+  const dealer = expectRecord(state.dealer, `${path}.dealer`);
+  return {
+    code: expectString(state.code, `${path}.code`),
+    players: expectArray(state.players, `${path}.players`).map((p, idx) => validatePlayer(p, `${path}.players[${idx}]`)),
+    dealer: { cards: validateCards(dealer.cards, `${path}.dealer.cards`) },
+    phase: validatePhase(state.phase, `${path}.phase`),
+    turnIdx: expectNumber(state.turnIdx, `${path}.turnIdx`),
+    handIdx: expectNumber(state.handIdx, `${path}.handIdx`),
+    rules: normalizeRules(expectRecord(state.rules, `${path}.rules`) as Partial<TableRules>),
+    turnDeadline: state.turnDeadline === null ? null : expectNumber(state.turnDeadline, `${path}.turnDeadline`),
+    hostId: state.hostId === null ? null : expectString(state.hostId, `${path}.hostId`),
+    locked: state.locked === true,
+    hasPassword: state.hasPassword === true,
+    fairness: validateFairness(state.fairness, `${path}.fairness`),
+  };
+}
+
+function validateShoeSeeds(value: unknown, path: string): ShoeSeeds {
+  const seeds = expectRecord(value, path);
+  return {
+    shoeNo: expectNumber(seeds.shoeNo, `${path}.shoeNo`),
+    decks: expectNumber(seeds.decks, `${path}.decks`),
+    commitment: expectString(seeds.commitment, `${path}.commitment`),
+    clientSeed: expectString(seeds.clientSeed, `${path}.clientSeed`),
+    serverSeed: seeds.serverSeed === null ? null : expectString(seeds.serverSeed, `${path}.serverSeed`),
+  };
+}
+
+function validateFairness(value: unknown, path: string): Fairness {
+  const fairness = expectRecord(value, path);
+  const clientSeeds = expectRecord(fairness.clientSeeds, `${path}.clientSeeds`);
+  for (const [id, seed] of Object.entries(clientSeeds)) expectString(seed, `${path}.clientSeeds.${id}`);
+  return {
+    current: fairness.current === null ? null : validateShoeSeeds(fairness.current, `${path}.current`),
+    nextCommitment: expectString(fairness.nextCommitment, `${path}.nextCommitment`),
+    clientSeeds: clientSeeds as Record<string, string>,
+    revealed: expectArray(fairness.revealed, `${path}.revealed`).map((s, idx) => validateShoeSeeds(s, `${path}.revealed[${idx}]`)),
+  };
+}
@@ -0,0 +1,236 @@
+import { HistoryFileError, isRecord, ValidationError } from "./engine/index.ts";
+
+// Everything the browser keeps between visits. Small values live in localStorage, large ones (hand
+// histories, per-hand stats) in IndexedDB. `bj_schema` holds the layout version; `migrateStorage`
+// moves older layouts forward before the app reads anything.
+
+// ===================== Entries =====================
+/**
+ * One stored value. `read` turns parsed JSON into a `T`, filling in defaults where it can and
+ * throwing a `ValidationError` where it can't.
+ */
+export interface Entry<T> {
+  key: string;
+  fallback: () => T;
+  read: (value: unknown) => T;
+}
+
+export const entry = <T>(key: string, fallback: () => T, read: (value: unknown) => T): Entry<T> => ({ key, fallback, read });
+
+/** Reads a flat record of numbers, keeping the default for any field that is missing or not a number. */
+export const numberFields = <T extends { [K in keyof T]: number }>(defaults: T) => (value: unknown): T => {
+  if (!isRecord(value)) throw new ValidationError("value", "expected an object");
+  const fields = Object.entries(defaults).map(([key, fallback]) => {
+    const field = value[key];
+    return [key, typeof field === "number" && Number.isFinite(field) ? field : fallback];
+  });
+  return Object.fromEntries(fields) as T;
+};
+
+/** Corrupt values are moved aside rather than deleted, so a bug here can't silently destroy data. */
+const setAside = (key: string, raw: string) => {
+  try {
+    localStorage.setItem(`${key}_corrupt`, raw);
+  } catch {
+    // Out of space: the copy is a courtesy, not worth failing over.
+  }
+};
+
+// ===================== localStorage =====================
+export function loadLocal<T>(e: Entry<T>): T {
+  const raw = localStorage.getItem(e.key);
+  if (raw === null) return e.fallback();
+  try {
+    return e.read(JSON.parse(raw));
+  } catch (err) {
+    console.warn(`Discarding unreadable ${e.key}`, err);
+    setAside(e.key, raw);
+    localStorage.removeItem(e.key);
+    return e.fallback();
+  }
+}
+
+export function saveLocal<T>(e: Entry<T>, value: T) {
+  try {
+    localStorage.setItem(e.key, JSON.stringify(value));
+  } catch (err) {
+    console.warn(`Could not save ${e.key}`, err);
+  }
+}
+
+export const removeLocal = (e: Entry<unknown>) => localStorage.removeItem(e.key);
+
+// ===================== IndexedDB =====================
+const DB_NAME = "blackjack";
+const DB_STORE = "data";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(DB_STORE);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  // A failed open (private browsing, blocked storage) is retried next time rather than cached.
+  dbPromise.catch(() => (dbPromise = null));
+  return dbPromise;
+}
+
+async function idb<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(DB_STORE, mode).objectStore(DB_STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/** Like `loadLocal`, for values kept in IndexedDB. Never rejects. */
+export async function loadLarge<T>(e: Entry<T>): Promise<T> {
+  let raw: unknown;
+  try {
+    raw = await idb("readonly", store => store.get(e.key));
+  } catch (err) {
+    console.warn(`Could not read ${e.key}`, err);
+    return e.fallback();
+  }
+  if (raw === undefined) return e.fallback();
+  try {
+    return e.read(raw);
+  } catch (err) {
+    console.warn(`Discarding unreadable ${e.key}`, err);
+    await idb("readwrite", store => store.put(raw, `${e.key}_corrupt`)).catch(() => undefined);
+    return e.fallback();
+  }
+}
+
+export async function saveLarge<T>(e: Entry<T>, value: T) {
+  try {
+    await idb("readwrite", store => store.put(value, e.key));
+  } catch (err) {
+    console.warn(`Could not save ${e.key}`, err);
+  }
+}
+
+// ===================== Migrations =====================
+export const STORAGE_VERSION = 2;
+const SCHEMA_KEY = "bj_schema";
+
+const parseOr = (raw: string | null, fallback: unknown) => {
+  if (raw === null) return fallback;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return fallback;
+  }
+};
+
+/** Each step takes the layout from version `n` to `n + 1`. */
+const MIGRATIONS: Record<number, () => Promise<void>> = {
+  // 1: one key per preference, hand history and hand stats in localStorage.
+  // 2: preferences in one `bj_prefs` object, large data in IndexedDB.
+  // Every step has to be safe to run again, since a failure part way through is retried.
+  1: async () => {
+    if (localStorage.getItem("bj_prefs") === null) {
+      const prefs = {
+        name: localStorage.getItem("bj_name") ?? "",
+        theme: localStorage.getItem("bj_theme") ?? undefined,
+        hints: localStorage.getItem("bj_hints") === "1",
+        trainer: localStorage.getItem("bj_trainer") === "1",
+        clientSeed: localStorage.getItem("bj_client_seed") ?? undefined,
+      };
+      localStorage.setItem("bj_prefs", JSON.stringify(prefs));
+    }
+    for (const key of ["bj_name", "bj_theme", "bj_hints", "bj_trainer", "bj_client_seed"]) localStorage.removeItem(key);
+
+    for (const key of ["bj_history", "bj_hand_stats"]) {
+      const raw = localStorage.getItem(key);
+      if (raw === null) continue;
+      await idb("readwrite", store => store.put(parseOr(raw, []), key));
+      localStorage.removeItem(key);
+    }
+  },
+};
+
+/**
+ * Brings stored data up to `STORAGE_VERSION`. A step that fails leaves the version where it was,
+ * so it is tried again on the next visit; the app then starts with whatever it can read.
+ */
+export async function migrateStorage(): Promise<void> {
+  let version = Number(localStorage.getItem(SCHEMA_KEY) ?? 1);
+  if (!Number.isInteger(version) || version < 1) version = 1;
+  while (version < STORAGE_VERSION) {
+    try {
+      await MIGRATIONS[version]();
+    } catch (err) {
+      console.warn(`Storage migration from version ${version} failed`, err);
+      return;
+    }
+    version++;
+    localStorage.setItem(SCHEMA_KEY, String(version));
+  }
+}
+
+// ===================== Profile files =====================
+export const PROFILE_FORMAT = "blackjack-ng/profile";
+
+/** Thrown when an imported file is not a profile this version can load. */
+export class ProfileFileError extends Error {
+  name = "ProfileFileError";
+}
+
+interface ProfileFile {
+  format: typeof PROFILE_FORMAT;
+  version: number;
+  exportedAt: string;
+  local: Record<string, unknown>;
+  large: Record<string, unknown>;
+}
+
+/** Everything in `local` and `large` as one JSON file, for moving to another browser. */
+export async function exportProfile(local: Entry<unknown>[], large: Entry<unknown>[], now = new Date()): Promise<string> {
+  const file: ProfileFile = {
+    format: PROFILE_FORMAT,
+    version: STORAGE_VERSION,
+    exportedAt: now.toISOString(),
+    local: Object.fromEntries(local.map(e => [e.key, loadLocal(e)])),
+    large: Object.fromEntries(await Promise.all(large.map(async e => [e.key, await loadLarge(e)]))),
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Checks every value in a profile file before writing any of them, so a bad file changes nothing.
+ * Entries the file leaves out keep their current value.
+ */
+export async function importProfile(text: string, local: Entry<unknown>[], large: Entry<unknown>[]): Promise<void> {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ProfileFileError("This file is not valid JSON");
+  }
+  if (!isRecord(data) || data.format !== PROFILE_FORMAT) throw new ProfileFileError("This file is not a Blackjack profile");
+  if (typeof data.version !== "number" || data.version > STORAGE_VERSION) {
+    throw new ProfileFileError(`Profile version ${String(data.version)} is not supported (newest is ${STORAGE_VERSION})`);
+  }
+  const localData = isRecord(data.local) ? data.local : {};
+  const largeData = isRecord(data.large) ? data.large : {};
+
+  const read = <T>(e: Entry<T>, source: Record<string, unknown>): [Entry<T>, T][] => {
+    if (source[e.key] === undefined) return [];
+    try {
+      return [[e, e.read(source[e.key])]];
+    } catch (err) {
+      if (err instanceof ValidationError || err instanceof HistoryFileError) throw new ProfileFileError(`${e.key}: ${err.message}`);
+      throw err;
+    }
+  };
+  const localValues = local.flatMap(e => read(e, localData));
+  const largeValues = large.flatMap(e => read(e, largeData));
+
+  for (const [e, value] of localValues) saveLocal(e, value);
+  for (const [e, value] of largeValues) await saveLarge(e, value);
+}
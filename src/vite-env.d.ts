@@ -0,0 +1,6 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** WebSocket endpoint of the game server, e.g. ws://localhost:8080 */
+  readonly VITE_WS_URL?: string;
+}